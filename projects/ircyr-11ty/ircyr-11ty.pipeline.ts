@@ -103,6 +103,7 @@ const buildSearchIndex = new FlexSearchIndexNode({
 });
 
 // Calls Eleventy to build the site and outputs the result to the output directory.
+// Runs after all nodes writing into its source directory, which are found by their outputDir.
 const eleventyBuild = new EleventyBuildNode({
     name: 'eleventy-build',
     config: {
@@ -119,38 +120,30 @@ const eleventyBuild = new EleventyBuildNode({
         },
     },
     outputConfig: {
-        outputDir: '3-output',
+        outputDir: '${siteDir}',
     },
-
-    // Make sure the other nodes run before this one so all necessary files have been generated.
-    explicitDependencies: [
-        "transform-epidoc",
-        "copy-eleventy-site",
-        "create-epidoc-11ty-frontmatter",
-        "aggregate-indices",
-        "aggregate-bib-concordance",
-        "aggregate-search-data",
-        "build-search-index"
-    ],
 });
 
 
 // Create the pipeline
 const pipeline = new Pipeline("IRCyR Eleventy", ".efes-build", ".efes-cache", "dynamic");
 
-(async () => {
-    await pipeline
+pipeline
+
+    // Add all nodes
+    .addNode(transformEpiDoc)
+    .addNode(createEpiDoc11tyFrontmatter)
+    .addNode(aggregateIndices)
+    .addNode(aggregateBibConcordance)
+    .addNode(aggregateSearchData)
+    .addNode(buildSearchIndex)
+    .addNode(copyEleventySite)
+    .addNode(eleventyBuild);
 
-        // Add all nodes
-        .addNode(transformEpiDoc)
-        .addNode(createEpiDoc11tyFrontmatter)
-        .addNode(aggregateIndices)
-        .addNode(aggregateBibConcordance)
-        .addNode(aggregateSearchData)
-        .addNode(buildSearchIndex)
-        .addNode(copyEleventySite)
-        .addNode(eleventyBuild)
+// The site goes to 3-output, or with `--profile pages` straight to the GitHub Pages directory
+pipeline.configure({
+    variables: {siteDir: "3-output"},
+    profiles: {pages: {siteDir: "../../pages/ircyr-11ty"}}
+});
 
-        // Run the pipeline
-        .run();
-})()
+export default pipeline;
@@ -1,8 +1,12 @@
 import {CopyFilesNode} from "../../src/io/copyFilesNode";
 import {fileRef, from, Pipeline} from "../../src/core/pipeline";
 import path from "node:path";
+import {fileURLToPath} from "node:url";
 import {XsltTransformNode} from "../../src/xml/nodes/xsltTransformNode";
 
+// Stylesheet parameters need absolute paths into this project
+const projectDir = path.dirname(fileURLToPath(import.meta.url));
+
 
 
 // ----- PREPARE KILN XSLs AND TEMPLATES -----
@@ -30,8 +34,8 @@ const preprocessKilnXsl = new XsltTransformNode({
         sourceFiles: from(copyKiln, "copied", "2-intermediate/ircyr-efes/webapps/ROOT/**/*.xsl"),
         stylesheet: fileRef("1-input/stylesheets/preprocess-kiln-xsl.xsl"),
         stylesheetParams: {
-            "stylesheet-base-path": path.resolve("2-intermediate/ircyr-efes/webapps/ROOT"),
-            "efes-base-path": path.resolve("1-input/ircyr-efes"),
+            "stylesheet-base-path": path.resolve(projectDir, "2-intermediate/ircyr-efes/webapps/ROOT"),
+            "efes-base-path": path.resolve(projectDir, "1-input/ircyr-efes"),
         }
     },
     outputConfig: {
@@ -48,8 +52,8 @@ const preprocessKilnTemplates = new XsltTransformNode({
         sourceFiles: from(copyKiln, "copied", "2-intermediate/ircyr-efes/webapps/ROOT/assets/templates/**/*.xml"),
         stylesheet: fileRef("1-input/stylesheets/preprocess-kiln-xsl.xsl"),
         stylesheetParams: {
-            "stylesheet-base-path": path.resolve("2-intermediate/ircyr-efes/webapps/ROOT"),
-            "efes-base-path": path.resolve("1-input/ircyr-efes")
+            "stylesheet-base-path": path.resolve(projectDir, "2-intermediate/ircyr-efes/webapps/ROOT"),
+            "efes-base-path": path.resolve(projectDir, "1-input/ircyr-efes")
         }
     },
     outputConfig: {
@@ -259,28 +263,26 @@ const copyKilnAssets = new CopyFilesNode({
 // Create the pipeline
 const pipeline = new Pipeline("IRCyR XSLT",".efes-build", ".efes-cache", "dynamic");
 
-// Add all nodes
-(async () => {
-    await pipeline
-        .addNode(copyKiln)
-        .addNode(preprocessKilnXsl)
-        .addNode(preprocessKilnTemplates)
-        .addNode(templatesExpandXIncludes)
-        .addNode(templatesInherit)
+pipeline
+    // Add all nodes
+    .addNode(copyKiln)
+    .addNode(preprocessKilnXsl)
+    .addNode(preprocessKilnTemplates)
+    .addNode(templatesExpandXIncludes)
+    .addNode(templatesInherit)
 
-        .addNode(epidocMenuAggregation)
-        .addNode(epidocTransform)
+    .addNode(epidocMenuAggregation)
+    .addNode(epidocTransform)
 
-        .addNode(transformEpiDocToSolr)
-        .addNode(aggregateSolrDocs)
-        .addNode(solrDocsToResults)
-        .addNode(createInscriptionListMenuAggregation)
-        .addNode(createInscriptionList)
+    .addNode(transformEpiDocToSolr)
+    .addNode(aggregateSolrDocs)
+    .addNode(solrDocsToResults)
+    .addNode(createInscriptionListMenuAggregation)
+    .addNode(createInscriptionList)
 
-        .addNode(homeMenuAggregation)
-        .addNode(transformHome)
+    .addNode(homeMenuAggregation)
+    .addNode(transformHome)
 
-        .addNode(copyKilnAssets)
+    .addNode(copyKilnAssets);
 
-        .run();
-})()
+export default pipeline;
@@ -1,16 +1,19 @@
 import path from "node:path";
+import {fileURLToPath} from "node:url";
 import {XsltTransformNode} from "../../src/xml/nodes/xsltTransformNode";
 import {fileRef, from, Pipeline} from "../../src/core/pipeline";
+import {MatrixNode} from "../../src/core/matrixNode";
 import {CopyFilesNode} from "../../src/io/copyFilesNode";
 import {EleventyBuildNode, AggregateIndexDataNode, AggregateBibConcordanceNode, AggregateSearchDataNode} from "../../src/eleventy";
 import {FlexSearchIndexNode} from "../../src/search/flexSearchIndexNode";
 
 // Absolute file URIs for authority files (needed for XSLT document() calls in compiled SEF)
-const geographyFileUri = `file://${path.resolve('1-input/authority/geography.xml')}`;
-const dignitiesFileUri = `file://${path.resolve('1-input/authority/dignities.xml')}`;
-const officesFileUri = `file://${path.resolve('1-input/authority/offices.xml')}`;
-const invocationsFileUri = `file://${path.resolve('1-input/authority/invocation.xml')}`;
-const bibliographyFileUri = `file://${path.resolve('1-input/authority/bibliography.xml')}`;
+const projectDir = path.dirname(fileURLToPath(import.meta.url));
+const geographyFileUri = `file://${path.resolve(projectDir, '1-input/authority/geography.xml')}`;
+const dignitiesFileUri = `file://${path.resolve(projectDir, '1-input/authority/dignities.xml')}`;
+const officesFileUri = `file://${path.resolve(projectDir, '1-input/authority/offices.xml')}`;
+const invocationsFileUri = `file://${path.resolve(projectDir, '1-input/authority/invocation.xml')}`;
+const bibliographyFileUri = `file://${path.resolve(projectDir, '1-input/authority/bibliography.xml')}`;
 
 // We copy the eleventy site files to the intermediate directory so that they can be used as input for the Eleventy build.
 // In the next step, we add the transformed EpiDoc XML files as HTML partials to the inscription directory.
@@ -28,167 +31,76 @@ const copyEleventySite = new CopyFilesNode({
 
 
 // The SigiDoc source files contain data in three different languages: German, English, and Greek.
-// We have to create static pages for each language.
+// We have to create static pages for each language, so the MatrixNode creates the same chain of nodes
+// for each of them. The nodes are named after the language, e.g. "languages:de:transform-epidoc".
 
-// ---- ENGLISH ----
-// We use the stylesheet prune-to-language derived from EFES/Kiln to prune the EpiDoc XML files to only include
-// the data for one language. The language is specified as a parameter to the stylesheet.
-const pruneEpidocEnglish = new XsltTransformNode({
-    name: "prune-epidoc-english",
+const languages = new MatrixNode({
+    name: "languages",
     config: {
-        sourceFiles: '1-input/feind-collection/*.xml',
-        stylesheet: fileRef("1-input/stylesheets/prune-to-language.xsl"),
-        stylesheetParams: {
-            language: 'en',
-        }
-    }
-})
-
-// Transforms the generated English SigiDoc XML files into HTML partials using the SigiDoc stylesheets.
-// Outputs them to the inscription directory of the intermediate eleventy-site directory.
-const transformEpiDocEnglish = new XsltTransformNode({
-    name: "transform-epidoc-en",
-    config: {
-        sourceFiles: from(pruneEpidocEnglish, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/epidoc-to-html.xsl"),
-        stylesheetParams: {
-            language: 'en',
-        }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/en/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".html"
-    }
-})
-
-// Extracts metadata from each English SigiDoc XML source file to a JSON
-// companion file as metadata for Eleventy that it can use to generate the inscription navigation and the inscription
-// list. Outputs the JSON files to the inscription directory of the intermediate eleventy-site directory, alongside the
-// HTML partials.
-
-const createEpiDoc11tyFrontmatterEnglish = new XsltTransformNode({
-    name: "create-epidoc-11ty-frontmatter-en",
-    config: {
-        sourceFiles: from(pruneEpidocEnglish, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/create-11ty-frontmatter-for-sigidoc.xsl"),
-        stylesheetParams: {
-            language: 'en',
-            'geography-file': geographyFileUri,
-            'dignities-file': dignitiesFileUri,
-            'offices-file': officesFileUri,
-            'invocations-file': invocationsFileUri,
-            'bibliography-file': bibliographyFileUri,
-        }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/en/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".11tydata.json"
-    }
-})
-
-
-// ---- GERMAN ----
-// (same workflow as for English)
-
-const pruneEpidocGerman = new XsltTransformNode({
-    name: "prune-epidoc-german",
-    config: {
-        sourceFiles: '1-input/feind-collection/*.xml',
-        stylesheet: fileRef("1-input/stylesheets/prune-to-language.xsl"),
-        stylesheetParams: {
-            language: 'de',
-        }
-    }
-})
-
-const transformEpiDocGerman = new XsltTransformNode({
-    name: "transform-epidoc-de",
-    config: {
-        sourceFiles: from(pruneEpidocGerman, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/epidoc-to-html.xsl"),
-        stylesheetParams: {
-            language: 'de',
-        }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/de/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".html"
-    }
-})
-
-const createEpiDoc11tyFrontmatterGerman = new XsltTransformNode({
-    name: "create-epidoc-11ty-frontmatter-de",
-    config: {
-        sourceFiles: from(pruneEpidocGerman, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/create-11ty-frontmatter-for-sigidoc.xsl"),
-        stylesheetParams: {
-            language: 'de',
-            'geography-file': geographyFileUri,
-            'dignities-file': dignitiesFileUri,
-            'offices-file': officesFileUri,
-            'invocations-file': invocationsFileUri,
-            'bibliography-file': bibliographyFileUri,
-        }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/de/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".11tydata.json"
-    }
-})
-
-
-// ---- GREEK ----
-// (same workflow as for English)
-
-const pruneEpidocGreek = new XsltTransformNode({
-    name: "prune-epidoc-greek",
-    config: {
-        sourceFiles: '1-input/feind-collection/*.xml',
-        stylesheet: fileRef("1-input/stylesheets/prune-to-language.xsl"),
-        stylesheetParams: {
-            language: 'el',
-        }
-    }
-})
-
-const transformEpiDocGreek = new XsltTransformNode({
-    name: "transform-epidoc-el",
-    config: {
-        sourceFiles: from(pruneEpidocGreek, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/epidoc-to-html.xsl"),
-        stylesheetParams: {
-            language: 'el',
-        }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/el/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".html"
-    }
-})
-
-const createEpiDoc11tyFrontmatterGreek = new XsltTransformNode({
-    name: "create-epidoc-11ty-frontmatter-el",
-    config: {
-        sourceFiles: from(pruneEpidocGerman, "transformed"),
-        stylesheet: fileRef("1-input/stylesheets/create-11ty-frontmatter-for-sigidoc.xsl"),
-        stylesheetParams: {
-            language: 'el',
-            'geography-file': geographyFileUri,
-            'dignities-file': dignitiesFileUri,
-            'offices-file': officesFileUri,
-            'invocations-file': invocationsFileUri,
-            'bibliography-file': bibliographyFileUri,
+        matrix: {language: ['en', 'de', 'el']},
+        template: ({params: {language}, name}) => {
+            // We use the stylesheet prune-to-language derived from EFES/Kiln to prune the EpiDoc XML files to only include
+            // the data for one language. The language is specified as a parameter to the stylesheet.
+            const pruneEpidoc = new XsltTransformNode({
+                name: name("prune-epidoc"),
+                config: {
+                    sourceFiles: '1-input/feind-collection/*.xml',
+                    stylesheet: fileRef("1-input/stylesheets/prune-to-language.xsl"),
+                    stylesheetParams: {
+                        language,
+                    }
+                }
+            })
+
+            // Transforms the pruned SigiDoc XML files into HTML partials using the SigiDoc stylesheets.
+            // Outputs them to the inscription directory of the intermediate eleventy-site directory.
+            const transformEpiDoc = new XsltTransformNode({
+                name: name("transform-epidoc"),
+                config: {
+                    sourceFiles: from(pruneEpidoc, "transformed"),
+                    stylesheet: fileRef("1-input/stylesheets/epidoc-to-html.xsl"),
+                    stylesheetParams: {
+                        language,
+                    }
+                },
+                outputConfig: {
+                    outputDir: `2-intermediate/eleventy-site/${language}/seals`,
+                    stripPathPrefix: "1-input/feind-collection",
+                    extension: ".html"
+                }
+            })
+
+            // Extracts metadata from each pruned SigiDoc XML file to a JSON companion file as metadata for Eleventy
+            // that it can use to generate the inscription navigation and the inscription list. Outputs the JSON files
+            // to the inscription directory of the intermediate eleventy-site directory, alongside the HTML partials.
+            const createEpiDoc11tyFrontmatter = new XsltTransformNode({
+                name: name("create-epidoc-11ty-frontmatter"),
+                config: {
+                    sourceFiles: from(pruneEpidoc, "transformed"),
+                    stylesheet: fileRef("1-input/stylesheets/create-11ty-frontmatter-for-sigidoc.xsl"),
+                    stylesheetParams: {
+                        language,
+                        'geography-file': geographyFileUri,
+                        'dignities-file': dignitiesFileUri,
+                        'offices-file': officesFileUri,
+                        'invocations-file': invocationsFileUri,
+                        'bibliography-file': bibliographyFileUri,
+                    }
+                },
+                outputConfig: {
+                    outputDir: `2-intermediate/eleventy-site/${language}/seals`,
+                    stripPathPrefix: "1-input/feind-collection",
+                    extension: ".11tydata.json"
+                }
+            })
+
+            return [pruneEpidoc, transformEpiDoc, createEpiDoc11tyFrontmatter];
+        },
+        // Available per language as e.g. "frontmatter:en", and for all languages as "frontmatter"
+        outputs: {
+            html: {step: "transform-epidoc", output: "transformed"},
+            frontmatter: {step: "create-epidoc-11ty-frontmatter", output: "transformed"}
         }
-    },
-    outputConfig: {
-        outputDir: "2-intermediate/eleventy-site/el/seals",
-        stripPathPrefix: "1-input/feind-collection",
-        extension: ".11tydata.json"
     }
 })
 
@@ -200,7 +112,7 @@ const createEpiDoc11tyFrontmatterGreek = new XsltTransformNode({
 const aggregateIndices = new AggregateIndexDataNode({
     name: "aggregate-indices",
     config: {
-        frontmatterFiles: from(createEpiDoc11tyFrontmatterEnglish, "transformed"),
+        frontmatterFiles: from(languages, "frontmatter:en"),
         indicesConfigFile: fileRef("1-input/indices-config.xsl")
     },
     outputConfig: {
@@ -212,7 +124,7 @@ const aggregateIndices = new AggregateIndexDataNode({
 const aggregateBibConcordance = new AggregateBibConcordanceNode({
     name: "aggregate-bib-concordance",
     config: {
-        frontmatterFiles: from(createEpiDoc11tyFrontmatterEnglish, "transformed"),
+        frontmatterFiles: from(languages, "frontmatter:en"),
     },
     outputConfig: {
         outputDir: "2-intermediate/eleventy-site/_data/concordance"
@@ -227,7 +139,7 @@ const aggregateBibConcordance = new AggregateBibConcordanceNode({
 const aggregateSearchData = new AggregateSearchDataNode({
     name: "aggregate-search-data",
     config: {
-        frontmatterFiles: from(createEpiDoc11tyFrontmatterEnglish, "transformed"),
+        frontmatterFiles: from(languages, "frontmatter:en"),
     },
     outputConfig: { outputDir: "2-intermediate/eleventy-site/_data/search" }
 });
@@ -254,6 +166,7 @@ const buildSearchIndex = new FlexSearchIndexNode({
 // ---- FINAL ASSEMBLY ----
 
 // Calls Eleventy to build the site and outputs the result to the output directory.
+// Runs after all nodes writing into its source directory, which are found by their outputDir.
 const eleventyBuild = new EleventyBuildNode({
     name: 'eleventy-build',
     config: {
@@ -270,23 +183,8 @@ const eleventyBuild = new EleventyBuildNode({
         },
     },
     outputConfig: {
-        outputDir: '3-output',
+        outputDir: '${siteDir}',
     },
-
-    // Make sure the other nodes run before this one so all necessary files have been generated.
-    explicitDependencies: [
-        "transform-epidoc-en",
-        "create-epidoc-11ty-frontmatter-en",
-        "transform-epidoc-de",
-        "create-epidoc-11ty-frontmatter-de",
-        "transform-epidoc-el",
-        "create-epidoc-11ty-frontmatter-el",
-        "copy-eleventy-site",
-        "aggregate-indices",
-        "aggregate-bib-concordance",
-        "aggregate-search-data",
-        "build-search-index"
-    ],
 });
 
 
@@ -294,29 +192,21 @@ const eleventyBuild = new EleventyBuildNode({
 const pipeline = new Pipeline("IRCyR Eleventy",".efes-build", ".efes-cache", "dynamic");
 
 
-(async () => {
-    await pipeline
+pipeline
 
-        // Add all nodes
-        .addNode(pruneEpidocEnglish)
-        .addNode(transformEpiDocEnglish)
-        .addNode(createEpiDoc11tyFrontmatterEnglish)
+    // Add all nodes
+    .addNode(languages)
+    .addNode(copyEleventySite)
+    .addNode(aggregateIndices)
+    .addNode(aggregateBibConcordance)
+    .addNode(aggregateSearchData)
+    .addNode(buildSearchIndex)
+    .addNode(eleventyBuild);
 
-        .addNode(pruneEpidocGerman)
-        .addNode(transformEpiDocGerman)
-        .addNode(createEpiDoc11tyFrontmatterGerman)
-
-        .addNode(pruneEpidocGreek)
-        .addNode(transformEpiDocGreek)
-        .addNode(createEpiDoc11tyFrontmatterGreek)
-
-        .addNode(copyEleventySite)
-        .addNode(aggregateIndices)
-        .addNode(aggregateBibConcordance)
-        .addNode(aggregateSearchData)
-        .addNode(buildSearchIndex)
-        .addNode(eleventyBuild)
+// The site goes to 3-output, or with `--profile pages` straight to the GitHub Pages directory
+pipeline.configure({
+    variables: {siteDir: "3-output"},
+    profiles: {pages: {siteDir: "../../pages/sigidoc-feind-11ty"}}
+});
 
-        // Run the pipeline
-        .run();
-})()
+export default pipeline;
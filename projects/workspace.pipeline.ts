@@ -0,0 +1,31 @@
+import {Pipeline} from "../src/core/pipeline";
+import {SubPipelineNode} from "../src/core/subPipelineNode";
+
+
+// Builds all Eleventy projects in one process. Their nodes are expanded into this pipeline's graph
+// (`ircyr-11ty:eleventy-build`), scheduled together on one worker pool and share one cache.
+const ircyr = new SubPipelineNode({
+    name: "ircyr-11ty",
+    config: {
+        pipeline: "ircyr-11ty/ircyr-11ty.pipeline.ts",
+        outputs: {site: {node: "eleventy-build", output: "built"}}
+    }
+});
+
+const sigidocFeind = new SubPipelineNode({
+    name: "sigidoc-feind-11ty",
+    config: {
+        pipeline: "sigidoc-feind-11ty/sigidoc-feind-11ty.pipeline.ts",
+        outputs: {site: {node: "eleventy-build", output: "built"}}
+    }
+});
+
+
+// Create the pipeline
+const pipeline = new Pipeline("EFES projects", ".efes-build", ".efes-cache", "dynamic");
+
+pipeline
+    .addNode(ircyr)
+    .addNode(sigidocFeind);
+
+export default pipeline;
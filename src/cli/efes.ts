@@ -0,0 +1,401 @@
+#!/usr/bin/env -S npx tsx
+import path from "node:path";
+import fs from "node:fs/promises";
+import {parseArgs} from "node:util";
+import {type ErrorPolicy, type ExecutionMode, type Pipeline, type PipelineOptions, type RunOptions} from "../core/pipeline";
+import {CacheManager} from "../core/cache";
+import {loadPipeline} from "../core/pipelineDefinition";
+import {formatGraph, GRAPH_FORMATS, type GraphFormat} from "../core/graphExport";
+import {VERIFY_DIR, verifyReproducible} from "../core/reproducibility";
+import {type FileLineage, MANIFEST_FILE, readBuildManifest, traceFile} from "../core/manifest";
+
+const USAGE = `Usage: efes <command> <pipeline-file> [options]
+
+Commands:
+  build <pipeline-file>          Run the pipeline
+  plan <pipeline-file>           Report cached, stale and new items per node without doing any work
+  validate <pipeline-file>       Check references, input globs and output paths without doing any work
+  watch <pipeline-file>          Run the pipeline, then re-run affected nodes when input files change
+  verify-reproducible <pipeline-file>
+                                 Build twice with a cold cache and report files that differ, by node
+  clean <pipeline-file>          Remove build dir, cache dir, node output directories and verify-reproducible builds
+  graph <pipeline-file>          Print the expanded node graph in execution order, or export it with --format
+  status <pipeline-file>         Show nodes, output directories and cache size
+  why <file> <pipeline-file>     Show which node, items and stylesheets an output file of the last build came from
+  cache info <pipeline-file>     Show cache entries per content signature
+  cache clear <pipeline-file>    Remove the cache directory
+
+A pipeline file is either a module exporting a Pipeline (.ts, .js) or a
+declarative pipeline definition (.json, .yaml, .yml).
+
+Options:
+  --mode <mode>                  Execution mode: sequential, parallel or dynamic
+  --build-dir <dir>              Build directory (relative to the pipeline file)
+  --cache-dir <dir>              Cache directory (relative to the pipeline file)
+  --workers <n>                  Number of worker threads (default: available CPU cores)
+  --profile <name>               Use the variables of this profile of the pipeline
+  --target <node>                build, plan, verify-reproducible: only run this node and its dependencies (repeatable)
+  --from <node>                  build, plan: reuse cached outputs of everything upstream of this node (repeatable)
+  --on-error <policy>            build, watch: fail (default) or collect failing items and report them at the end
+  --html-report                  build, watch: also write build-report.html next to build-report.json
+  --skip-validation              build, watch, verify-reproducible: don't run the checks of validate first
+  --keep-cache                   clean: keep the cache directory
+  --format <format>              graph: output as dot, mermaid or json instead of text
+  -h, --help                     Show this help
+`;
+
+const COMMANDS = ['build', 'plan', 'validate', 'watch', 'verify-reproducible', 'clean', 'graph', 'status', 'why', 'cache'];
+const EXECUTION_MODES: ExecutionMode[] = ['sequential', 'parallel', 'dynamic'];
+const ERROR_POLICIES: ErrorPolicy[] = ['fail', 'collect'];
+
+function parseOptions(values: Record<string, string | string[] | boolean | undefined>): PipelineOptions {
+    const options: PipelineOptions = {};
+
+    if (typeof values.mode === 'string') {
+        if (!EXECUTION_MODES.includes(values.mode as ExecutionMode)) {
+            throw new Error(`Invalid --mode "${values.mode}". Expected one of: ${EXECUTION_MODES.join(', ')}`);
+        }
+        options.executionMode = values.mode as ExecutionMode;
+    }
+    if (typeof values['build-dir'] === 'string') options.buildDir = values['build-dir'];
+    if (typeof values['cache-dir'] === 'string') options.cacheDir = values['cache-dir'];
+    if (typeof values.profile === 'string') options.profile = values.profile;
+    if (values['html-report'] === true) options.htmlReport = true;
+    if (typeof values['on-error'] === 'string') {
+        if (!ERROR_POLICIES.includes(values['on-error'] as ErrorPolicy)) {
+            throw new Error(`Invalid --on-error "${values['on-error']}". Expected one of: ${ERROR_POLICIES.join(', ')}`);
+        }
+        options.onError = values['on-error'] as ErrorPolicy;
+    }
+    if (typeof values.workers === 'string') {
+        const workerCount = Number(values.workers);
+        if (!Number.isInteger(workerCount) || workerCount < 1) {
+            throw new Error(`Invalid --workers "${values.workers}". Expected a positive integer`);
+        }
+        options.workerCount = workerCount;
+    }
+
+    return options;
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.access(filePath);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+async function removeDir(dir: string, projectDir: string): Promise<void> {
+    const resolved = path.resolve(dir);
+    const relative = path.relative(path.resolve(projectDir), resolved);
+
+    // Never remove the project directory itself or anything outside of it
+    if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+        console.warn(`Refusing to remove ${resolved}: not inside the project directory`);
+        return;
+    }
+
+    if (await exists(resolved)) {
+        await fs.rm(resolved, { recursive: true, force: true });
+        console.log(`Removed ${path.relative(process.cwd(), resolved)}`);
+    }
+}
+
+async function build(pipeline: Pipeline, options: RunOptions): Promise<void> {
+    // First Ctrl-C cancels the build and lets running jobs finish; a second one exits immediately
+    const controller = new AbortController();
+    process.once('SIGINT', () => {
+        console.log(`\nCancelling build, waiting for running jobs (press Ctrl-C again to exit immediately)`);
+        controller.abort(new Error('Build cancelled'));
+    });
+
+    await pipeline.run({...options, signal: controller.signal});
+}
+
+// Limit the invalidations listed per node; a changed stylesheet invalidates every item
+const MAX_LISTED_INVALIDATIONS = 10;
+
+async function plan(pipeline: Pipeline, options: RunOptions): Promise<void> {
+    const plans = await pipeline.plan(options);
+
+    console.log(`Plan for pipeline ${pipeline.name}:\n`);
+    console.log(`  ${'node'.padEnd(40)} ${'cached'.padStart(7)} ${'stale'.padStart(7)} ${'new'.padStart(7)}`);
+
+    for (const nodePlan of plans) {
+        const name = nodePlan.nodeName.padEnd(40);
+        if (nodePlan.mode === 'uncached') {
+            console.log(`  ${name} (not cached, always runs)`);
+        } else if (nodePlan.mode === 'composite') {
+            console.log(`  ${name} (composite)`);
+        } else if (nodePlan.mode === 'error') {
+            console.log(`  ${name} (cannot evaluate: ${nodePlan.error})`);
+        } else {
+            console.log(`  ${name} ${String(nodePlan.cached).padStart(7)} ${String(nodePlan.stale).padStart(7)} ${String(nodePlan.new).padStart(7)}`);
+        }
+
+        for (const {item, reasons} of nodePlan.invalidations.slice(0, MAX_LISTED_INVALIDATIONS)) {
+            console.log(`      ${item}`);
+            for (const reason of reasons) {
+                console.log(`        ${reason}`);
+            }
+        }
+        if (nodePlan.invalidations.length > MAX_LISTED_INVALIDATIONS) {
+            console.log(`      ... and ${nodePlan.invalidations.length - MAX_LISTED_INVALIDATIONS} more stale item(s)`);
+        }
+    }
+}
+
+async function validate(pipeline: Pipeline): Promise<void> {
+    const issues = await pipeline.validate();
+    if (issues.length === 0) {
+        console.log(`Pipeline ${pipeline.name} is valid`);
+        return;
+    }
+
+    for (const issue of issues) {
+        const log = issue.severity === 'error' ? console.error : console.warn;
+        log(`  ${issue.severity === 'error' ? '✗' : '!'} [${issue.node}] ${issue.message} (${issue.check})`);
+    }
+
+    const errors = issues.filter(issue => issue.severity === 'error').length;
+    if (errors > 0) {
+        throw new Error(`${errors} error(s), ${issues.length - errors} warning(s)`);
+    }
+}
+
+async function watch(pipeline: Pipeline, options: RunOptions): Promise<void> {
+    const watcher = await pipeline.watch(undefined, options);
+
+    // Stop on Ctrl-C, letting a running rebuild wind down first
+    process.once('SIGINT', async () => {
+        console.log(`\nStopping watch mode`);
+        await watcher.close();
+    });
+}
+
+// Limit the files listed per node; a difference early in the pipeline changes most downstream files
+const MAX_LISTED_DIFFERENCES = 10;
+
+async function verify(pipeline: Pipeline, options: RunOptions): Promise<void> {
+    const report = await verifyReproducible(pipeline, options);
+
+    console.log(`\nReproducibility of ${pipeline.name}: ${report.files} files compared, ${report.differences.length} differ`);
+    if (report.ignored.length > 0) {
+        console.log(`  ${report.ignored.length} compiled stylesheet(s) only differ in their compile time and are ignored`);
+    }
+    for (const {node, files, upstream} of report.nodes) {
+        console.log(`\n  ✗ ${node} ${upstream.length > 0 ? `(downstream of ${upstream.join(', ')})` : '(likely cause)'}`);
+        for (const {file, kind, detail} of files.slice(0, MAX_LISTED_DIFFERENCES)) {
+            const description = kind === 'changed' ? detail : `only in build ${kind === 'missing-first' ? 2 : 1}`;
+            console.log(`      ${file}${description ? `  ${description}` : ''}`);
+        }
+        if (files.length > MAX_LISTED_DIFFERENCES) {
+            console.log(`      ... and ${files.length - MAX_LISTED_DIFFERENCES} more file(s)`);
+        }
+    }
+    console.log(`\nBoth builds are kept in ${report.runDirs.map(dir => path.relative(process.cwd(), dir)).join(' and ')}`);
+
+    if (report.differences.length > 0) {
+        throw new Error(`Builds are not reproducible: ${report.differences.length} file(s) differ`);
+    }
+}
+
+async function clean(pipeline: Pipeline, keepCache: boolean): Promise<void> {
+    const projectDir = pipeline.directory ?? process.cwd();
+    await removeDir(pipeline.buildDir, projectDir);
+    await removeDir(path.join(projectDir, VERIFY_DIR), projectDir);
+    if (!keepCache) {
+        await removeDir(pipeline.cacheDir, projectDir);
+    }
+    for (const outputDir of pipeline.getOutputDirs()) {
+        await removeDir(outputDir, projectDir);
+    }
+}
+
+function graph(pipeline: Pipeline, format: string | undefined): void {
+    if (format !== undefined && format !== 'text') {
+        if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+            throw new Error(`Invalid --format "${format}". Expected one of: text, ${GRAPH_FORMATS.join(', ')}`);
+        }
+        // Keep stdout clean for the exported graph
+        pipeline.configure({consoleOutput: false});
+        process.stdout.write(formatGraph(pipeline.getGraph(), format as GraphFormat));
+        return;
+    }
+
+    for (const node of pipeline.getNodes()) {
+        const dependencies = pipeline.getDirectDependencies(node.name);
+        console.log(`${node.name} (${node.constructor.name})`);
+        for (const dependency of dependencies) {
+            console.log(`  <- ${dependency}`);
+        }
+    }
+}
+
+async function status(pipeline: Pipeline): Promise<void> {
+    const nodes = pipeline.getNodes();
+    console.log(`Pipeline: ${pipeline.name}`);
+    console.log(`Execution mode: ${pipeline.executionMode}, workers: ${pipeline.workerCount}`);
+    if (pipeline.profile) console.log(`Profile: ${pipeline.profile}`);
+    console.log(`Build dir: ${pipeline.buildDir}${await exists(pipeline.buildDir) ? '' : ' (missing)'}`);
+
+    const cacheStats = await new CacheManager(pipeline.cacheDir).getStats();
+    const cacheEntries = cacheStats.reduce((sum, s) => sum + s.entries, 0);
+    const cacheBytes = cacheStats.reduce((sum, s) => sum + s.bytes, 0);
+    console.log(`Cache dir: ${pipeline.cacheDir} (${cacheEntries} entries, ${formatBytes(cacheBytes)})`);
+
+    console.log(`\nNodes (${nodes.length}):`);
+    for (const node of nodes) {
+        const outputDir = node.config.outputConfig?.outputDir ?? path.join(pipeline.buildDir, node.name);
+        const marker = await exists(outputDir) ? '✓' : '·';
+        console.log(`  ${marker} ${node.name.padEnd(40)} ${outputDir}`);
+    }
+}
+
+// How a node read a file besides its items
+const INPUT_LABELS = {fileRef: 'config input', discovered: 'discovered dependency', explicit: 'explicit dependency'};
+
+// Node-level inputs listed for outputs whose node records no items, e.g. an aggregation of all documents
+const MAX_LISTED_NODE_INPUTS = 10;
+
+async function why(pipeline: Pipeline, file: string): Promise<void> {
+    const manifest = await readBuildManifest(pipeline.buildDir);
+    if (!manifest) {
+        throw new Error(`No ${MANIFEST_FILE} in ${pipeline.buildDir}. Build the pipeline first`);
+    }
+    if (!manifest.files[file]) {
+        throw new Error(`${file} is not an output of the last build of ${pipeline.name}`);
+    }
+
+    const print = ({file, entry, source, from, repeated}: FileLineage, depth: number, role?: string) => {
+        const indent = '    '.repeat(depth);
+        const label = source ? INPUT_LABELS[source] : role;
+        if (!entry) {
+            console.log(`${indent}${depth > 0 ? '← ' : ''}${file}${label ? `  (${label}, source)` : '  (source)'}`);
+            return;
+        }
+        console.log(`${indent}${depth > 0 ? '← ' : ''}${file}${label ? `  (${label})` : ''}`);
+        console.log(`${indent}    built by ${entry.node}${entry.contentSignature ? ` [${entry.contentSignature}]` : ''}${repeated ? ', see above' : ''}`);
+        if (repeated) return;
+
+        const items = new Set(entry.items);
+        for (const lineage of from) {
+            print(lineage, depth + 1, items.has(lineage.file) && !lineage.source ? 'item' : undefined);
+        }
+        if (!entry.items) {
+            const node = manifest.nodes[entry.node];
+            if (node?.dependencies.length) {
+                console.log(`${indent}    after ${node.dependencies.join(', ')}`);
+            }
+            for (const input of node?.inputs.slice(0, MAX_LISTED_NODE_INPUTS) ?? []) {
+                console.log(`${indent}    ← ${input}  (read by the node)`);
+            }
+            if (node && node.inputs.length > MAX_LISTED_NODE_INPUTS) {
+                console.log(`${indent}    ... and ${node.inputs.length - MAX_LISTED_NODE_INPUTS} more file(s)`);
+            }
+        }
+    };
+    print(traceFile(manifest, file), 0);
+}
+
+async function cache(pipeline: Pipeline, action: string | undefined): Promise<void> {
+    const cacheManager = new CacheManager(pipeline.cacheDir);
+
+    if (action === 'clear') {
+        await cacheManager.clear();
+        console.log(`Cleared cache: ${pipeline.cacheDir}`);
+    } else if (action === 'info') {
+        const stats = await cacheManager.getStats();
+        if (stats.length === 0) {
+            console.log(`Cache is empty: ${pipeline.cacheDir}`);
+            return;
+        }
+        for (const {signature, entries, bytes} of stats) {
+            console.log(`  ${signature.padEnd(40)} ${String(entries).padStart(6)} entries  ${formatBytes(bytes)}`);
+        }
+    } else {
+        throw new Error(`Unknown cache action "${action}". Expected "info" or "clear"`);
+    }
+}
+
+async function main(argv: string[]): Promise<void> {
+    const {values, positionals} = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            'mode': { type: 'string' },
+            'build-dir': { type: 'string' },
+            'cache-dir': { type: 'string' },
+            'workers': { type: 'string' },
+            'profile': { type: 'string' },
+            'target': { type: 'string', multiple: true },
+            'from': { type: 'string', multiple: true },
+            'html-report': { type: 'boolean' },
+            'skip-validation': { type: 'boolean' },
+            'on-error': { type: 'string' },
+            'keep-cache': { type: 'boolean' },
+            'format': { type: 'string' },
+            'help': { type: 'boolean', short: 'h' },
+        }
+    });
+
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+        console.log(USAGE);
+        return;
+    }
+    if (!COMMANDS.includes(command)) {
+        throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+    }
+
+    // `cache` takes an action and `why` a file before the pipeline file
+    const action = command === 'cache' || command === 'why' ? args.shift() : undefined;
+    const pipelineFile = args[0];
+    if (!pipelineFile) {
+        throw new Error(`Missing pipeline file.\n\n${USAGE}`);
+    }
+    if (command === 'why' && !action) {
+        throw new Error(`Missing file to explain.\n\n${USAGE}`);
+    }
+    // Relative to the current directory, like the pipeline file; the manifest's paths are relative to the pipeline's
+    const file = command === 'why' ? path.resolve(action!) : undefined;
+
+    const pipeline = (await loadPipeline(pipelineFile)).configure(parseOptions(values));
+    const validateFirst = values['skip-validation'] !== true;
+
+    switch (command) {
+        case 'build':
+            return build(pipeline, { targets: values.target, from: values.from, validate: validateFirst });
+        case 'plan':
+            return plan(pipeline, { targets: values.target, from: values.from });
+        case 'validate':
+            return validate(pipeline);
+        case 'watch':
+            return watch(pipeline, { validate: validateFirst });
+        case 'verify-reproducible':
+            return verify(pipeline, { targets: values.target, validate: validateFirst });
+        case 'clean':
+            return clean(pipeline, values['keep-cache'] === true);
+        case 'graph':
+            return graph(pipeline, values.format);
+        case 'status':
+            return status(pipeline);
+        case 'why':
+            return why(pipeline, path.relative(pipeline.directory ?? process.cwd(), file!));
+        case 'cache':
+            return cache(pipeline, action);
+    }
+}
+
+main(process.argv.slice(2)).catch((err: any) => {
+    console.error(`efes: ${err.message}`);
+    process.exitCode = 1;
+});
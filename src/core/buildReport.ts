@@ -0,0 +1,286 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {type ExecutionMode} from "./pipeline";
+import {type PipelineEvents} from "./events";
+
+// Number of slowest items listed per node
+const SLOWEST_ITEMS_PER_NODE = 10;
+
+/**
+ * Machine-readable summary of a single pipeline run, written as JSON after every run.
+ * Times are in milliseconds.
+ */
+export interface BuildReport {
+    pipeline: string;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    success: boolean;
+    executionMode: ExecutionMode;
+    /** Nodes restored from the cache instead of running (--from) */
+    reusedNodes: string[];
+    nodes: NodeReport[];
+    cache: CacheStats;
+    workers: {
+        count: number;
+        jobs: number;
+        failedJobs: number;
+        busyMs: number;
+        /** Busy time divided by the time all workers were available during the run (0–1) */
+        utilisation: number;
+        perWorker: { workerId: number; jobs: number; busyMs: number }[];
+    };
+    failures: { node: string; item?: string; message: string }[];
+}
+
+export interface NodeReport {
+    name: string;
+    status: 'completed' | 'failed' | 'cancelled' | 'not run';
+    durationMs?: number;
+    cache: CacheStats;
+    /** Items skipped under the 'collect' error policy */
+    failedItems: number;
+    /**
+     * Slowest processed items. For nodes that run in the worker pool this is the worker job
+     * time; otherwise the time spent in performWork, which may include waiting for a worker.
+     */
+    slowestItems: { item: string; durationMs: number }[];
+}
+
+interface CacheStats {
+    hits: number;
+    misses: number;
+    /** Hits divided by all items, or null if there were no items */
+    hitRate: number | null;
+}
+
+function cacheStats(hits: number, misses: number): CacheStats {
+    const total = hits + misses;
+    return {hits, misses, hitRate: total > 0 ? hits / total : null};
+}
+
+/**
+ * Collects a BuildReport from pipeline events between run:start and run:end.
+ */
+export class BuildReportCollector {
+    private startedAt = new Date();
+    private finishedAt?: Date;
+    private runStart?: { pipeline: string; executionMode: ExecutionMode; nodes: string[]; reused: string[]; workerCount: number };
+    private runEnd?: { success: boolean; durationMs: number };
+    private nodeStatus = new Map<string, { status: NodeReport['status']; durationMs: number }>();
+    private cacheHits = new Map<string, number>();
+    private cacheMisses = new Map<string, number>();
+    private itemDurations = new Map<string, Map<string, number>>();
+    private jobDurations = new Map<string, Map<string, number>>();
+    private workerStats = new Map<number, { jobs: number; busyMs: number }>();
+    private failedJobs = 0;
+    private failures: BuildReport['failures'] = [];
+    private failedItems = new Map<string, number>();
+    private subscriptions: (() => void)[] = [];
+
+    constructor(events: PipelineEvents) {
+        const increment = (counts: Map<string, number>, node: string) => counts.set(node, (counts.get(node) ?? 0) + 1);
+        const record = (durations: Map<string, Map<string, number>>, node: string, item: string, durationMs: number) => {
+            if (!durations.has(node)) durations.set(node, new Map());
+            durations.get(node)!.set(item, durationMs);
+        };
+
+        this.subscriptions.push(
+            events.on('run:start', (event) => {
+                this.startedAt = new Date();
+                this.runStart = event;
+            }),
+            events.on('run:end', ({success, durationMs}) => {
+                this.finishedAt = new Date();
+                this.runEnd = {success, durationMs};
+            }),
+            events.on('node:end', ({node, success, cancelled, durationMs, error}) => {
+                const status = success ? 'completed' : cancelled ? 'cancelled' : 'failed';
+                this.nodeStatus.set(node, {status, durationMs});
+                if (error && !cancelled) {
+                    this.failures.push({node, message: error.message});
+                }
+            }),
+            events.on('item:cache-hit', ({node}) => increment(this.cacheHits, node)),
+            events.on('item:cache-miss', ({node}) => increment(this.cacheMisses, node)),
+            events.on('item:failed', ({node, item, error}) => {
+                increment(this.failedItems, node);
+                this.failures.push({node, item, message: error.message});
+            }),
+            events.on('item:processed', ({node, item, durationMs}) => record(this.itemDurations, node, item, durationMs)),
+            events.on('worker:job-end', ({workerId, node, file, success, durationMs}) => {
+                const stats = this.workerStats.get(workerId) ?? {jobs: 0, busyMs: 0};
+                stats.jobs++;
+                stats.busyMs += durationMs;
+                this.workerStats.set(workerId, stats);
+                if (!success) this.failedJobs++;
+                if (node && file) record(this.jobDurations, node, file, durationMs);
+            })
+        );
+    }
+
+    detach(): void {
+        this.subscriptions.forEach(unsubscribe => unsubscribe());
+        this.subscriptions = [];
+    }
+
+    getReport(): BuildReport {
+        if (!this.runStart) {
+            throw new Error(`No run:start event received`);
+        }
+
+        const durationMs = this.runEnd?.durationMs ?? 0;
+        const workerCount = this.runStart.workerCount;
+        const perWorker = Array.from(this.workerStats.entries())
+            .map(([workerId, stats]) => ({workerId, ...stats}))
+            .sort((a, b) => a.workerId - b.workerId);
+        const busyMs = perWorker.reduce((sum, w) => sum + w.busyMs, 0);
+
+        const nodes: NodeReport[] = this.runStart.nodes.map(name => {
+            const status = this.nodeStatus.get(name);
+            const durations = this.jobDurations.get(name) ?? this.itemDurations.get(name) ?? new Map<string, number>();
+            return {
+                name,
+                status: status?.status ?? 'not run',
+                ...(status && {durationMs: status.durationMs}),
+                cache: cacheStats(this.cacheHits.get(name) ?? 0, this.cacheMisses.get(name) ?? 0),
+                failedItems: this.failedItems.get(name) ?? 0,
+                slowestItems: Array.from(durations.entries())
+                    .map(([item, itemDurationMs]) => ({item, durationMs: itemDurationMs}))
+                    .sort((a, b) => b.durationMs - a.durationMs)
+                    .slice(0, SLOWEST_ITEMS_PER_NODE)
+            };
+        });
+
+        const sum = (counts: Map<string, number>) => Array.from(counts.values()).reduce((a, b) => a + b, 0);
+
+        return {
+            pipeline: this.runStart.pipeline,
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: (this.finishedAt ?? new Date()).toISOString(),
+            durationMs,
+            success: this.runEnd?.success ?? false,
+            executionMode: this.runStart.executionMode,
+            reusedNodes: this.runStart.reused,
+            nodes,
+            cache: cacheStats(sum(this.cacheHits), sum(this.cacheMisses)),
+            workers: {
+                count: workerCount,
+                jobs: perWorker.reduce((total, w) => total + w.jobs, 0),
+                failedJobs: this.failedJobs,
+                busyMs,
+                utilisation: durationMs > 0 && workerCount > 0 ? busyMs / (workerCount * durationMs) : 0,
+                perWorker
+            },
+            failures: this.failures
+        };
+    }
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function formatSeconds(ms: number | undefined): string {
+    return ms === undefined ? '–' : `${(ms / 1000).toFixed(2)}s`;
+}
+
+function formatRate(rate: number | null): string {
+    return rate === null ? '–' : `${(rate * 100).toFixed(1)}%`;
+}
+
+/**
+ * Render a build report as a self-contained HTML page.
+ */
+export function renderBuildReportHtml(report: BuildReport): string {
+    const nodeRows = [...report.nodes]
+        .sort((a, b) => (b.durationMs ?? 0) - (a.durationMs ?? 0))
+        .map(node => `
+            <tr class="${node.status === 'failed' ? 'failed' : ''}">
+                <td>${escapeHtml(node.name)}</td>
+                <td>${node.status}</td>
+                <td class="num">${formatSeconds(node.durationMs)}</td>
+                <td class="num">${node.cache.hits}</td>
+                <td class="num">${node.cache.misses}</td>
+                <td class="num">${formatRate(node.cache.hitRate)}</td>
+                <td>${node.slowestItems.slice(0, 3)
+                    .map(item => `${escapeHtml(item.item)} (${formatSeconds(item.durationMs)})`).join('<br>')}</td>
+            </tr>`).join('');
+
+    const workerRows = report.workers.perWorker.map(worker => `
+            <tr>
+                <td>${worker.workerId}</td>
+                <td class="num">${worker.jobs}</td>
+                <td class="num">${formatSeconds(worker.busyMs)}</td>
+                <td class="num">${formatRate(report.durationMs > 0 ? worker.busyMs / report.durationMs : null)}</td>
+            </tr>`).join('');
+
+    const failureItems = report.failures.map(failure => `
+            <li><strong>${escapeHtml(failure.node)}</strong>${failure.item ? ` ${escapeHtml(failure.item)}` : ''}: ${escapeHtml(failure.message)}</li>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="utf-8">
+    <title>Build report: ${escapeHtml(report.pipeline)}</title>
+    <style>
+        body { font-family: system-ui, sans-serif; margin: 2rem; }
+        table { border-collapse: collapse; margin-bottom: 2rem; }
+        th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+        td.num { text-align: right; }
+        tr.failed { background: #fdd; }
+    </style>
+</head>
+<body>
+    <h1>${escapeHtml(report.pipeline)}</h1>
+    <p>
+        ${report.success ? 'Succeeded' : 'Failed'} in ${formatSeconds(report.durationMs)}
+        (${report.executionMode}, started ${escapeHtml(report.startedAt)}).
+        Cache hit rate: ${formatRate(report.cache.hitRate)} (${report.cache.hits} hits, ${report.cache.misses} misses).
+        Worker utilisation: ${formatRate(report.workers.utilisation)} of ${report.workers.count} workers.
+    </p>
+    ${report.failures.length > 0 ? `<h2>Failures</h2>\n    <ul>${failureItems}\n    </ul>` : ''}
+    <h2>Nodes</h2>
+    <table>
+        <thead>
+            <tr><th>Node</th><th>Status</th><th>Duration</th><th>Hits</th><th>Misses</th><th>Hit rate</th><th>Slowest items</th></tr>
+        </thead>
+        <tbody>${nodeRows}
+        </tbody>
+    </table>
+    <h2>Workers</h2>
+    <table>
+        <thead>
+            <tr><th>Worker</th><th>Jobs</th><th>Busy</th><th>Utilisation</th></tr>
+        </thead>
+        <tbody>${workerRows}
+        </tbody>
+    </table>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the report as build-report.json (and build-report.html) into the given directory.
+ * Returns the paths written.
+ */
+export async function writeBuildReport(report: BuildReport, dir: string, html: boolean): Promise<string[]> {
+    await fs.mkdir(dir, {recursive: true});
+
+    const jsonPath = path.join(dir, 'build-report.json');
+    await fs.writeFile(jsonPath, JSON.stringify(report, null, 2));
+    const written = [jsonPath];
+
+    if (html) {
+        const htmlPath = path.join(dir, 'build-report.html');
+        await fs.writeFile(htmlPath, renderBuildReportHtml(report));
+        written.push(htmlPath);
+    }
+
+    return written;
+}
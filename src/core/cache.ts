@@ -6,7 +6,7 @@ import * as crypto from "node:crypto";
  * CacheEntry represents a single cached computation result.
  * Uses unified file tracking for all types of dependencies.
  */
-interface CacheEntry {
+export interface CacheEntry {
   /**
    * Output file paths organized by output key.
    * Used to verify outputs still exist and reconstruct node outputs.
@@ -75,6 +75,10 @@ interface CacheEntry {
 export class CacheManager {
   private cacheDir: string;
 
+  // Entries being built, so that nodes with the same content signature, e.g. compiling a stylesheet
+  // two projects of a workspace share, build an item once instead of side by side
+  private pendingEntries = new Map<string, Promise<CacheEntry | null>>();
+
   constructor(cacheDir: string = '.efes-cache') {
     this.cacheDir = cacheDir;
   }
@@ -119,6 +123,74 @@ export class CacheManager {
     );
   }
 
+  /**
+   * The entry another node is building for the same content signature and item, once it is
+   * stored (null if building it failed). Undefined if nobody is building it.
+   */
+  getPendingCache(contentSignature: string, itemKey: string): Promise<CacheEntry | null> | undefined {
+    return this.pendingEntries.get(this.getCachePath(contentSignature, itemKey));
+  }
+
+  /**
+   * Announce that an entry is being built, so that others wait for it (see getPendingCache).
+   * Returns the function to call with the stored entry, or null if building it failed.
+   */
+  beginCache(contentSignature: string, itemKey: string): (entry: CacheEntry | null) => void {
+    const cachePath = this.getCachePath(contentSignature, itemKey);
+    let settle!: (entry: CacheEntry | null) => void;
+    this.pendingEntries.set(cachePath, new Promise(resolve => settle = resolve));
+    return entry => {
+      this.pendingEntries.delete(cachePath);
+      settle(entry);
+    };
+  }
+
+  /**
+   * Record the outputs a node produced in its last run.
+   * Used by targeted runs to treat upstream nodes as satisfied without running them.
+   */
+  async setNodeOutputs(nodeName: string, outputs: Record<string, string[]>[]): Promise<void> {
+    const outputsPath = this.getNodeOutputsPath(nodeName);
+    await fs.mkdir(path.dirname(outputsPath), { recursive: true });
+    await fs.writeFile(outputsPath, JSON.stringify(outputs, null, 2), 'utf-8');
+  }
+
+  /**
+   * Retrieve the outputs a node produced in its last run.
+   * Returns null if the node hasn't run with this cache yet.
+   */
+  async getNodeOutputs(nodeName: string): Promise<Record<string, string[]>[] | null> {
+    try {
+      const content = await fs.readFile(this.getNodeOutputsPath(nodeName), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Record the files a node wrote in its last run, so that the next run can delete
+   * the ones it no longer produces.
+   */
+  async setProducedFiles(nodeName: string, files: string[]): Promise<void> {
+    const filesPath = this.getProducedFilesPath(nodeName);
+    await fs.mkdir(path.dirname(filesPath), { recursive: true });
+    await fs.writeFile(filesPath, JSON.stringify([...files].sort(), null, 2), 'utf-8');
+  }
+
+  /**
+   * Retrieve the files a node wrote in its last run.
+   * Returns null if none have been recorded with this cache yet.
+   */
+  async getProducedFiles(nodeName: string): Promise<string[] | null> {
+    try {
+      const content = await fs.readFile(this.getProducedFilesPath(nodeName), 'utf-8');
+      return JSON.parse(content);
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Validate if a cache entry is still valid.
    * Uses unified validation for all tracked files.
@@ -138,6 +210,36 @@ export class CacheManager {
       resolveInput?: (input: any) => Promise<string[]>;
     }
   ): Promise<boolean> {
+    const invalidations = await this.checkEntry(entry, context, true);
+    return invalidations.length === 0;
+  }
+
+  /**
+   * Same checks as isValid, but collects every reason the entry is invalid instead of
+   * stopping at the first one. Used by plan mode to report what caused invalidation.
+   *
+   * Example: ['changed: 1-input/inscriptions/A.1.xml', 'upstream changed: prune-epidoc-english']
+   */
+  async explainInvalid(
+    entry: CacheEntry,
+    context?: {
+      getNodeOutputs: (nodeName: string) => any[] | undefined;
+      resolveInput?: (input: any) => Promise<string[]>;
+    }
+  ): Promise<string[]> {
+    return this.checkEntry(entry, context, false);
+  }
+
+  private async checkEntry(
+    entry: CacheEntry,
+    context: {
+      getNodeOutputs: (nodeName: string) => any[] | undefined;
+      resolveInput?: (input: any) => Promise<string[]>;
+    } | undefined,
+    stopAtFirst: boolean
+  ): Promise<string[]> {
+    const invalidations: string[] = [];
+
     // 1. Check upstream output signatures (cheapest - string comparison)
     if (entry.upstreamOutputSignatures && context?.resolveInput) {
       for (const [nodeName, upstreamInfo] of Object.entries(entry.upstreamOutputSignatures)) {
@@ -154,12 +256,17 @@ export class CacheManager {
           // Use resolveInput to get the correctly filtered paths (same as during storage)
           currentPaths = await context.resolveInput(nodeRef);
         } catch (error) {
-          return false; // Upstream node hasn't run yet or error occurred
+          // Upstream node hasn't run yet or error occurred
+          invalidations.push(`upstream unavailable: ${nodeName}`);
+          if (stopAtFirst) return invalidations;
+          continue;
         }
 
         const currentSignature = CacheManager.computeOutputSignature(currentPaths);
         if (currentSignature !== upstreamInfo.signature) {
-          return false; // Upstream produced different file set
+          // Upstream produced different file set
+          invalidations.push(`upstream changed: ${nodeName}`);
+          if (stopAtFirst) return invalidations;
         }
       }
     }
@@ -177,12 +284,14 @@ export class CacheManager {
         // Slow path: verify content
         const currentHash = await this.computeFileHash(filePath);
         if (currentHash !== fileInfo.hash) {
-          return false; // Content changed
+          // Content changed
+          invalidations.push(`changed: ${filePath}`);
+          if (stopAtFirst) return invalidations;
         }
         // Timestamp changed but content identical - still valid
       } catch (err) {
-        console.log(`[CACHE DEBUG] File missing or inaccessible: ${filePath}`);
-        return false; // File missing
+        invalidations.push(`missing: ${filePath}`);
+        if (stopAtFirst) return invalidations;
       }
     }
 
@@ -192,12 +301,14 @@ export class CacheManager {
         try {
           await fs.access(outputPath);
         } catch {
-          return false; // Output missing
+          // Output missing
+          invalidations.push(`output missing: ${outputPath}`);
+          if (stopAtFirst) return invalidations;
         }
       }
     }
 
-    return true;
+    return invalidations;
   }
 
   /**
@@ -211,29 +322,49 @@ export class CacheManager {
   }
 
   /**
-   * Clean up cache entries that are not in the current run.
-   * Called at node start to remove orphaned entries for deleted files.
+   * Clean up the cache entries a node stored under a content signature in its last run but no
+   * longer has items for, e.g. the entry of a deleted source document, and record the current keys.
+   * Called once a node has seen all of its items. Other nodes with the same config share the
+   * signature, so entries that one of them recorded are kept.
    *
    * Example: If *.xml previously matched 3 files but now matches 2,
    * this removes the cache entry for the deleted file.
    */
-  async cleanExcept(contentSignature: string, currentItemKeys: string[]): Promise<void> {
-    const signatureDir = path.join(this.cacheDir, this.sanitizeNodeName(contentSignature));
+  async pruneItemEntries(nodeName: string, contentSignature: string, currentItemKeys: string[]): Promise<void> {
+    const safeSignature = this.sanitizeNodeName(contentSignature);
+    const keysDir = path.join(this.cacheDir, '.item-keys');
+    const keysPath = path.join(keysDir, encodeURIComponent(nodeName), `${safeSignature}.json`);
 
+    let previousKeys: string[] = [];
     try {
-      const entries = await fs.readdir(signatureDir);
-      const currentKeysSet = new Set(currentItemKeys.map(k => `${this.sanitizeKey(k)}.json`));
+      previousKeys = JSON.parse(await fs.readFile(keysPath, 'utf-8'));
+    } catch {
+      // First run of the node with this signature - nothing to clean
+    }
 
-      for (const entry of entries) {
-        if (!currentKeysSet.has(entry)) {
-          // This cache entry is no longer needed
-          const orphanPath = path.join(signatureDir, entry);
-          await fs.unlink(orphanPath);
+    const currentKeys = new Set(currentItemKeys.map(k => this.sanitizeKey(k)));
+    const orphanedKeys = previousKeys.filter(key => !currentKeys.has(key));
+    if (orphanedKeys.length > 0) {
+      const keptKeys = new Set<string>();
+      for (const otherNode of await fs.readdir(keysDir).catch(() => [] as string[])) {
+        if (otherNode === encodeURIComponent(nodeName)) continue;
+        try {
+          const otherKeys: string[] = JSON.parse(await fs.readFile(path.join(keysDir, otherNode, `${safeSignature}.json`), 'utf-8'));
+          otherKeys.forEach(key => keptKeys.add(key));
+        } catch {
+          // The other node has no entries under this signature
+        }
+      }
+
+      for (const key of orphanedKeys) {
+        if (!keptKeys.has(key)) {
+          await fs.rm(path.join(this.cacheDir, safeSignature, `${key}.json`), { force: true });
         }
       }
-    } catch (error) {
-      // Signature directory doesn't exist yet - nothing to clean
     }
+
+    await fs.mkdir(path.dirname(keysPath), { recursive: true });
+    await fs.writeFile(keysPath, JSON.stringify([...currentKeys].sort(), null, 2), 'utf-8');
   }
 
   /**
@@ -259,6 +390,34 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Summarize the cache contents per content signature directory.
+   * Returns an empty list if the cache directory doesn't exist yet.
+   */
+  async getStats(): Promise<Array<{ signature: string; entries: number; bytes: number }>> {
+    let signatureDirs: string[];
+    try {
+      signatureDirs = await fs.readdir(this.cacheDir);
+    } catch {
+      return [];
+    }
+
+    const stats = [];
+    for (const signature of signatureDirs.sort()) {
+      if (signature.startsWith('.')) continue;
+      const signatureDir = path.join(this.cacheDir, signature);
+      if (!(await fs.stat(signatureDir)).isDirectory()) continue;
+
+      let bytes = 0;
+      const entries = await fs.readdir(signatureDir);
+      for (const entry of entries) {
+        bytes += (await fs.stat(path.join(signatureDir, entry))).size;
+      }
+      stats.push({ signature, entries: entries.length, bytes });
+    }
+    return stats;
+  }
+
   /**
    * Copy a cached output file to the expected build path when cache is shared
    * between nodes with different output paths.
@@ -380,6 +539,18 @@ export class CacheManager {
     };
   }
 
+  /**
+   * Get the filesystem path for a node's recorded outputs.
+   * Stored in a dot-directory so it doesn't collide with content signature directories.
+   */
+  private getNodeOutputsPath(nodeName: string): string {
+    return path.join(this.cacheDir, '.node-outputs', `${encodeURIComponent(nodeName)}.json`);
+  }
+
+  private getProducedFilesPath(nodeName: string): string {
+    return path.join(this.cacheDir, '.produced-files', `${encodeURIComponent(nodeName)}.json`);
+  }
+
   /**
    * Get the filesystem path for a cache entry.
    */
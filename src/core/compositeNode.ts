@@ -1,4 +1,4 @@
-import { PipelineNode, type PipelineNodeConfig, type NodeOutput, type PipelineContext } from "./pipeline";
+import { PipelineNode, type PipelineNodeConfig, type NodeOutput, type PipelineContext, type Pipeline } from "./pipeline";
 
 /**
  * Mapping configuration for connecting internal node outputs to composite node outputs
@@ -46,6 +46,9 @@ export abstract class CompositeNode<
     TConfig extends PipelineNodeConfig,
     TOutput extends string
 > extends PipelineNode<TConfig, TOutput> {
+    // Only collects outputs of internal nodes, so it is safe to run in plan mode
+    readonly plannable = true;
+
     /** Internal nodes that will be expanded into the main pipeline */
     protected internalNodes: PipelineNode<any, any>[] = [];
 
@@ -68,8 +71,7 @@ export abstract class CompositeNode<
      * Lifecycle hook called when this composite node is added to a pipeline.
      * Expands internal nodes into the main pipeline for streaming and parallelization.
      */
-    onAddedToPipeline(pipeline: any): void {
-        console.log(`Expanding composite node: ${this.name}`);
+    onAddedToPipeline(pipeline: Pipeline): void {
         for (const node of this.internalNodes) {
             pipeline.addNode(node);
         }
@@ -77,13 +79,24 @@ export abstract class CompositeNode<
         // Add dependencies from composite to internal nodes so composite runs AFTER internal nodes
         for (const node of this.internalNodes) {
             try {
-                pipeline.graph.addDependency(this.name, node.name);
+                pipeline.addDependency(this.name, node.name, 'composite-internal');
             } catch (err: any) {
                 // Dependency might already exist or have other issues, continue
-                console.warn(`Could not add dependency from ${this.name} to ${node.name}: ${err.message}`);
+                pipeline.events.emit('warning', {
+                    message: `Could not add dependency from ${this.name} to ${node.name}: ${err.message}`, node: this.name
+                });
             }
         }
 
+        // Internal nodes follow the composite's error policy, scheduling and limits unless they set their own
+        for (const node of this.internalNodes) {
+            if (this.config.onError) node.config.onError ??= this.config.onError;
+            if (this.config.priority !== undefined) node.config.priority ??= this.config.priority;
+            if (this.config.maxConcurrency !== undefined) node.config.maxConcurrency ??= this.config.maxConcurrency;
+            if (this.config.timeout !== undefined) node.config.timeout ??= this.config.timeout;
+            if (this.config.retry !== undefined) node.config.retry ??= this.config.retry;
+        }
+
         // Propagate explicit dependencies to internal nodes
         // This ensures that if composite depends on X, all internal nodes also depend on X
         if (this.config.explicitDependencies) {
@@ -101,6 +114,10 @@ export abstract class CompositeNode<
         }
     }
 
+    getOutputKeys(): readonly string[] {
+        return Object.keys(this.outputMappings);
+    }
+
     /**
      * Collects outputs from internal nodes according to the configured mappings.
      * By the time this runs, all internal nodes have already executed as part
@@ -140,13 +157,30 @@ export abstract class CompositeNode<
         }
 
         if (results.length === 0) {
-            console.warn(`CompositeNode ${this.name}: No outputs collected from internal pipeline`);
+            this.warn(context, `No outputs collected from internal pipeline`);
         }
 
         return results;
     }
 
 
+    /**
+     * Get the mappings from internal node outputs to this node's outputs, keyed by this node's output name
+     */
+    getOutputMappings(): Readonly<Record<string, OutputMapping>> {
+        return this.outputMappings;
+    }
+
+    /**
+     * Follow a renaming of the internal nodes, e.g. when the pipeline containing this node is
+     * embedded in another one (see Pipeline.embed).
+     */
+    renameInternalNodes(names: ReadonlyMap<string, string>): void {
+        for (const mapping of Object.values(this.outputMappings)) {
+            mapping.node = names.get(mapping.node) ?? mapping.node;
+        }
+    }
+
     /**
      * Get the internal nodes for inspection/debugging
      */
@@ -0,0 +1,344 @@
+import path from "node:path";
+import {escape} from "minimatch";
+import {inputIsFilteredInput, inputIsNodeOutputReference, type PipelineNodeConfig} from "./pipeline";
+import {isVariableReference} from "./variables";
+
+/**
+ * Types a config value can be checked against.
+ * - 'input': a glob, a from() reference, a filter() of either, or an array of these
+ * - 'fileRef': a fileRef()
+ * - 'object': a plain object (not an array, fileRef or from() reference)
+ */
+export type ValueType = 'string' | 'number' | 'boolean' | 'function' | 'object' | 'array' | 'input' | 'fileRef' | 'any';
+
+export interface FieldSchema {
+    type: ValueType | ValueType[];
+    required?: boolean;
+    /** Allowed values */
+    enum?: readonly unknown[];
+    /** For arrays: type of every element */
+    items?: ValueType | ValueType[];
+    /** For objects used as records: type of every property value */
+    values?: ValueType | ValueType[];
+    /** For strings: a file or directory path, resolved against the node's directory like inputs (see resolveConfigPaths) */
+    path?: boolean;
+}
+
+/**
+ * Declares the keys a node class accepts in `config` and `outputConfig`.
+ * Unknown keys are rejected, so typos fail when the node is constructed instead of being ignored.
+ */
+export interface ConfigSchema {
+    config: Record<string, FieldSchema>;
+    /** Default: UNIFIED_OUTPUT_CONFIG_SCHEMA */
+    outputConfig?: Record<string, FieldSchema>;
+    /** Groups of outputConfig keys of which at most one may be set */
+    exclusiveOutputOptions?: string[][];
+}
+
+export const UNIFIED_OUTPUT_CONFIG_SCHEMA: Record<string, FieldSchema> = {
+    outputDir: {type: 'string', path: true},
+    flattenToBasename: {type: 'boolean'},
+    stripPathPrefix: {type: 'string'},
+    pathMapping: {type: 'function'},
+    outputFilename: {type: ['string', 'function']},
+    extension: {type: 'string'},
+    filenameSuffix: {type: 'string'}
+};
+
+/**
+ * Path manipulation options are evaluated in order and only the first one applies,
+ * and outputFilename replaces the whole filename including extension and suffix.
+ */
+export const UNIFIED_EXCLUSIVE_OUTPUT_OPTIONS: string[][] = [
+    ['flattenToBasename', 'stripPathPrefix', 'pathMapping'],
+    ['outputFilename', 'extension'],
+    ['outputFilename', 'filenameSuffix']
+];
+
+// Keys every node config may have besides config and outputConfig
+const NODE_CONFIG_SCHEMA: Record<string, FieldSchema> = {
+    name: {type: 'string', required: true},
+    config: {type: 'object', required: true},
+    outputConfig: {type: 'object'},
+    explicitDependencies: {type: 'array', items: 'string'},
+    onError: {type: 'string', enum: ['fail', 'collect']},
+    priority: {type: 'number'},
+    maxConcurrency: {type: 'number'},
+    timeout: {type: 'number'},
+    retry: {type: ['number', 'object']}
+};
+
+const RETRY_POLICY_SCHEMA: Record<string, FieldSchema> = {
+    attempts: {type: 'number', required: true},
+    delayMs: {type: 'number'}
+};
+
+const TYPE_LABELS: Record<ValueType, string> = {
+    string: 'string',
+    number: 'number',
+    boolean: 'boolean',
+    function: 'function',
+    object: 'object',
+    array: 'array',
+    input: 'input (glob, from(), filter() or an array of these)',
+    fileRef: 'fileRef()',
+    any: 'any value'
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFileRef(value: unknown): boolean {
+    return isPlainObject(value) && value.type === 'file' && typeof value.path === 'string';
+}
+
+function matchesType(value: unknown, type: ValueType): boolean {
+    switch (type) {
+        case 'any':
+            return true;
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'function':
+            return typeof value === type;
+        case 'array':
+            return Array.isArray(value);
+        case 'fileRef':
+            return isFileRef(value);
+        case 'input':
+            return typeof value === 'string'
+                || (Array.isArray(value) && value.every(item => typeof item === 'string' || matchesType(item, 'input')))
+                || (isPlainObject(value) && inputIsNodeOutputReference(value as any))
+                || (isPlainObject(value) && inputIsFilteredInput(value as any) && matchesType(value.input, 'input'));
+        case 'object':
+            return isPlainObject(value) && !isFileRef(value) && !inputIsNodeOutputReference(value as any)
+                && !inputIsFilteredInput(value as any);
+    }
+}
+
+/**
+ * Describe a value for error messages, e.g. "number 3" or "from() reference".
+ */
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (isFileRef(value)) return 'fileRef()';
+    if (isPlainObject(value) && inputIsFilteredInput(value as any)) return 'filter()';
+    if (isPlainObject(value)) return inputIsNodeOutputReference(value as any) ? 'from() reference' : 'object';
+    if (typeof value === 'string') return `string ${JSON.stringify(value)}`;
+    if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+    return typeof value;
+}
+
+function expected(types: ValueType | ValueType[]): string {
+    return (Array.isArray(types) ? types : [types]).map(type => TYPE_LABELS[type]).join(' or ');
+}
+
+function editDistance(a: string, b: string): number {
+    const row = Array.from({length: b.length + 1}, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let previous = row[0];
+        row[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const current = row[j];
+            row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+            previous = current;
+        }
+    }
+    return row[b.length];
+}
+
+function suggestKey(key: string, knownKeys: string[]): string {
+    const closest = knownKeys
+        .map(known => ({known, distance: editDistance(key.toLowerCase(), known.toLowerCase())}))
+        .filter(({distance}) => distance <= 2)
+        .sort((a, b) => a.distance - b.distance)[0];
+    return closest ? ` (did you mean "${closest.known}"?)` : '';
+}
+
+/**
+ * Check the values of an object against field schemas, appending one message per problem.
+ */
+function validateFields(
+    values: Record<string, unknown>,
+    fields: Record<string, FieldSchema>,
+    keyPath: string,
+    issues: string[],
+    allowVariables = false
+): void {
+    const knownKeys = Object.keys(fields);
+    for (const key of Object.keys(values)) {
+        if (!(key in fields)) {
+            issues.push(`${keyPath}.${key}: unknown key${suggestKey(key, knownKeys)}. Allowed keys: ${knownKeys.join(', ')}`);
+        }
+    }
+
+    for (const [key, field] of Object.entries(fields)) {
+        const value = values[key];
+        const path = `${keyPath}.${key}`;
+        if (value === undefined) {
+            if (field.required) {
+                issues.push(`${path}: required ${expected(field.type)} is missing`);
+            }
+            continue;
+        }
+        validateValue(value, field, path, issues, allowVariables);
+    }
+}
+
+function validateValue(value: unknown, field: FieldSchema, path: string, issues: string[], allowVariables = false): void {
+    // Its value is only known once a pipeline substitutes the variables
+    if (allowVariables && isVariableReference(value)) return;
+
+    const types = Array.isArray(field.type) ? field.type : [field.type];
+    if (!types.some(type => matchesType(value, type))) {
+        // Point at the offending elements of an input array
+        if (types.includes('input') && Array.isArray(value)) {
+            value.forEach((item, index) => validateValue(item, {type: 'input'}, `${path}[${index}]`, issues, allowVariables));
+            return;
+        }
+        issues.push(`${path}: expected ${expected(field.type)}, got ${describeValue(value)}`);
+        return;
+    }
+
+    if (field.enum && !field.enum.includes(value)) {
+        issues.push(`${path}: expected one of ${field.enum.map(v => JSON.stringify(v)).join(', ')}, got ${describeValue(value)}`);
+    }
+
+    if (field.items && Array.isArray(value)) {
+        value.forEach((item, index) => validateValue(item, {type: field.items!}, `${path}[${index}]`, issues, allowVariables));
+    }
+
+    if (field.values && isPlainObject(value)) {
+        for (const [key, item] of Object.entries(value)) {
+            validateValue(item, {type: field.values}, `${path}.${key}`, issues, allowVariables);
+        }
+    }
+}
+
+/**
+ * Validate a node's configuration against its class's schema. Throws an error listing every
+ * problem with the node name, the key path and the expected type. Without a schema only the
+ * keys common to all nodes (name, explicitDependencies, onError, priority, maxConcurrency, timeout, retry) are checked.
+ * With `allowVariables`, a string in `config` or `outputConfig` that is a single ${name} reference
+ * passes as any type, since a variable may resolve to e.g. a number.
+ */
+export function validateNodeConfig(
+    nodeType: string,
+    config: PipelineNodeConfig,
+    schema?: ConfigSchema,
+    {allowVariables = false}: { allowVariables?: boolean } = {}
+): void {
+    if (!isPlainObject(config)) {
+        throw new Error(`Invalid configuration for ${nodeType}: expected object, got ${describeValue(config)}`);
+    }
+
+    const issues: string[] = [];
+    const nodeName = typeof config.name === 'string' ? config.name : '(unnamed)';
+
+    // Top-level keys of custom node configs are not known, so only the common ones are checked
+    for (const [key, field] of Object.entries(NODE_CONFIG_SCHEMA)) {
+        if (config[key as keyof PipelineNodeConfig] === undefined) {
+            if (field.required) issues.push(`${key}: required ${expected(field.type)} is missing`);
+        } else {
+            validateValue(config[key as keyof PipelineNodeConfig], field, key, issues);
+        }
+    }
+
+    const {maxConcurrency, timeout, retry} = config;
+    if (typeof maxConcurrency === 'number' && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+        issues.push(`maxConcurrency: expected a positive integer, got ${describeValue(maxConcurrency)}`);
+    }
+    if (typeof timeout === 'number' && !(timeout > 0)) {
+        issues.push(`timeout: expected a positive number of milliseconds, got ${describeValue(timeout)}`);
+    }
+    if (isPlainObject(retry)) {
+        validateFields(retry, RETRY_POLICY_SCHEMA, 'retry', issues);
+    }
+    const retryAttempts = isPlainObject(retry) ? retry.attempts : retry;
+    if (typeof retryAttempts === 'number' && (!Number.isInteger(retryAttempts) || retryAttempts < 0)) {
+        issues.push(`retry: expected a non-negative number of retries, got ${describeValue(retryAttempts)}`);
+    }
+
+    if (schema && isPlainObject(config.config)) {
+        validateFields(config.config, schema.config, 'config', issues, allowVariables);
+
+        const outputFields = schema.outputConfig ?? UNIFIED_OUTPUT_CONFIG_SCHEMA;
+        const outputConfig = config.outputConfig ?? {};
+        validateFields(outputConfig, outputFields, 'outputConfig', issues, allowVariables);
+
+        const isSet = (value: unknown) => value !== undefined && value !== null && value !== false;
+        for (const group of schema.exclusiveOutputOptions ?? UNIFIED_EXCLUSIVE_OUTPUT_OPTIONS) {
+            const setKeys = group.filter(key => isSet(outputConfig[key]));
+            if (setKeys.length > 1) {
+                issues.push(`outputConfig: ${setKeys.join(' and ')} are mutually exclusive; set only one of ${group.join(', ')}`);
+            }
+        }
+    }
+
+    if (issues.length > 0) {
+        throw new Error(`Invalid configuration for node "${nodeName}" (${nodeType}):\n  ${issues.join('\n  ')}`);
+    }
+}
+
+/**
+ * Resolve the relative paths in a node's config and outputConfig against a directory, e.g. that of its
+ * pipeline file, so that they can be used from the working directory: the globs of 'input' keys, fileRef()
+ * paths and the strings of keys declared with `path`. Other strings are left alone, so a node without a
+ * schema only has its outputDir resolved. filter() conditions and the globs of from() references, which match
+ * paths relative to the directory, carry it along instead. Returns copies; the given config is not changed.
+ */
+export function resolveConfigPaths(
+    config: PipelineNodeConfig,
+    schema: ConfigSchema | undefined,
+    directory: string
+): Pick<PipelineNodeConfig, 'config' | 'outputConfig'> {
+    const relativeDir = path.relative(process.cwd(), path.resolve(directory));
+    if (relativeDir === '') {
+        return {config: config.config, ...(config.outputConfig && {outputConfig: config.outputConfig})};
+    }
+
+    const resolvePath = (filePath: string) => path.isAbsolute(filePath) ? filePath : path.join(relativeDir, filePath);
+    const resolveInput = (value: unknown): unknown => {
+        if (typeof value === 'string') {
+            return path.isAbsolute(value) ? value : path.join(escape(relativeDir), value);
+        }
+        if (Array.isArray(value)) {
+            return value.map(resolveInput);
+        }
+        if (isFileRef(value)) {
+            const reference = value as { type: 'file', path: string };
+            return {...reference, path: resolvePath(reference.path)};
+        }
+        if (isPlainObject(value) && inputIsFilteredInput(value as any)) {
+            return {...value, input: resolveInput(value.input), directory: relativeDir};
+        }
+        if (isPlainObject(value) && inputIsNodeOutputReference(value as any) && value.glob !== undefined) {
+            return {...value, directory: relativeDir};
+        }
+        return value;
+    };
+
+    const resolveFields = (values: Record<string, any>, fields: Record<string, FieldSchema>) => {
+        const resolved = {...values};
+        for (const [key, field] of Object.entries(fields)) {
+            const value = values[key];
+            const types = [field.type].flat();
+            if (types.includes('input')) {
+                resolved[key] = resolveInput(value);
+            } else if (typeof value === 'string') {
+                if (field.path) resolved[key] = resolvePath(value);
+            } else if (types.includes('fileRef')) {
+                resolved[key] = resolveInput(value);
+            }
+        }
+        return resolved;
+    };
+
+    return {
+        config: resolveFields(config.config, schema?.config ?? {}),
+        ...(config.outputConfig && {outputConfig: resolveFields(config.outputConfig, schema?.outputConfig ?? UNIFIED_OUTPUT_CONFIG_SCHEMA)})
+    };
+}
@@ -0,0 +1,130 @@
+import path from "node:path";
+import {type PipelineEventName, type PipelineEventListener, type PipelineEvents} from "./events";
+
+/**
+ * Default subscriber that prints pipeline progress to the console.
+ * Attached by every Pipeline unless disabled with `configure({consoleOutput: false})`.
+ */
+export class ConsoleReporter {
+    constructor(private pipelineName: string) {
+    }
+
+    private log(message: string): void {
+        console.log(`  [${this.pipelineName}] ${message}`);
+    }
+
+    /**
+     * Subscribe to the given events. Returns a function that unsubscribes again.
+     */
+    attach(events: PipelineEvents): () => void {
+        const subscriptions: (() => void)[] = [];
+        const on = <TName extends PipelineEventName>(name: TName, listener: PipelineEventListener<TName>) => {
+            subscriptions.push(events.on(name, listener));
+        };
+
+        on('run:start', ({pipeline, nodes, reused, totalNodes}) => {
+            console.log(`Running pipeline ${pipeline}`);
+            console.log(`Number of nodes: ${totalNodes}`);
+            if (nodes.length < totalNodes) {
+                console.log(`Running ${nodes.length} of ${totalNodes} nodes (${reused.length} reused from cache)`);
+            }
+        });
+
+        on('node:reused', ({node}) => {
+            console.log(`  Reusing cached outputs: ${node}`);
+        });
+
+        on('node:start', ({node}) => {
+            this.log(`  ▶ Running: ${node}`);
+        });
+
+        on('node:end', ({node, success, cancelled, durationMs, error}) => {
+            if (success) {
+                this.log(`    ✓ Completed: ${node} (${(durationMs / 1000).toFixed(2)}s)`);
+            } else if (cancelled) {
+                this.log(`    ⊘ Cancelled: ${node}`);
+            } else {
+                this.log(`    ✗ Failed: ${node}`);
+                this.log(`      ${error?.message}`);
+            }
+        });
+
+        on('item:cache-hit', ({item}) => {
+            this.log(`  - Skipping: ${item} (cached)`);
+        });
+
+        on('item:failed', ({node, item, error, durationMs, attempts}) => {
+            const tries = attempts > 1 ? `, ${attempts} attempts` : '';
+            this.log(`  ✗ Failed item in ${node}: ${item} (${(durationMs / 1000).toFixed(1)}s${tries})`);
+            this.log(`      ${error.message}`);
+        });
+
+        on('item:retry', ({node, item, attempt, delayMs, error}) => {
+            this.log(`  ↻ Retrying ${item} in ${node} in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt} failed: ${error.message})`);
+        });
+
+        on('output:pruned', ({node, files}) => {
+            this.log(`  - Removed ${files.length} stale output(s) of ${node}`);
+        });
+
+        on('watch:ready', ({directories}) => {
+            console.log(`\nWatching for changes in ${directories.join(', ')}`);
+        });
+
+        on('watch:change', ({files, nodes}) => {
+            console.log(`\nChanged: ${files.join(', ')}`);
+            if (nodes.length === 0) {
+                console.log(`No nodes affected`);
+            } else {
+                console.log(`Re-running ${nodes.length} node(s): ${nodes.join(', ')}`);
+            }
+        });
+
+        on('watch:build-failed', ({initial, error}) => {
+            console.error(`${initial ? 'Initial build' : 'Rebuild'} failed: ${error.message}`);
+        });
+
+        on('log', ({message}) => {
+            this.log(message);
+        });
+
+        on('warning', ({message, node}) => {
+            console.warn(node ? `  [${node}] Warning: ${message}` : `Warning: ${message}`);
+        });
+
+        on('progress', ({runningNodes, activeJobs}) => {
+            console.log(`\n[Supervisor] Currently running ${runningNodes.length} node(s), ${activeJobs.length} worker(s) busy:`);
+            for (const nodeName of runningNodes) {
+                console.log(`  ⏳ ${nodeName}`);
+            }
+            if (activeJobs.length > 0) {
+                console.log(`  Workers:`);
+                for (const {workerId, node, file} of activeJobs) {
+                    console.log(`    Worker ${workerId}: [${node ?? 'unknown'}] ${file ? path.basename(file) : 'unknown'}`);
+                }
+            }
+        });
+
+        on('run:end', ({success, durationMs, nodeDurations, failedItems}) => {
+            if (failedItems.length > 0) {
+                console.error(`\nFailed items (${failedItems.length}):`);
+                for (const {node, item, message} of failedItems) {
+                    console.error(`  [${node}] ${item}`);
+                    console.error(`    ${message}`);
+                }
+            }
+            if (!success) return;
+
+            this.log(`Pipeline completed in ${(durationMs / 1000).toFixed(2)}s`);
+            console.log(`\nNode timing summary:`);
+
+            // Slowest first
+            const timings = Object.entries(nodeDurations).sort((a, b) => b[1] - a[1]);
+            for (const [nodeName, nodeDurationMs] of timings) {
+                console.log(`  ${nodeName.padEnd(40)} ${(nodeDurationMs / 1000).toFixed(2)}s`);
+            }
+        });
+
+        return () => subscriptions.forEach(unsubscribe => unsubscribe());
+    }
+}
@@ -0,0 +1,193 @@
+import {EventEmitter} from "node:events";
+import {type ExecutionMode} from "./pipeline";
+
+/**
+ * An item skipped by a node with the 'collect' error policy.
+ */
+export interface ItemFailure {
+    node: string;
+    item: string;
+    message: string;
+}
+
+/**
+ * Events emitted by a Pipeline while it runs, keyed by event name.
+ * Times are in milliseconds.
+ */
+export interface PipelineEventMap {
+    'run:start': {
+        pipeline: string;
+        executionMode: ExecutionMode;
+        /** Nodes that will run, in topological order */
+        nodes: string[];
+        /** Nodes skipped because their outputs were restored from the cache (--from) */
+        reused: string[];
+        /** Number of nodes in the pipeline, including those not part of this run */
+        totalNodes: number;
+        workerCount: number;
+    };
+    'run:end': {
+        pipeline: string;
+        success: boolean;
+        durationMs: number;
+        /** Duration of each node that completed in this run */
+        nodeDurations: Record<string, number>;
+        /** Items that failed in nodes with the 'collect' error policy */
+        failedItems: ItemFailure[];
+        error?: Error;
+    };
+    'node:start': {
+        node: string;
+    };
+    'node:end': {
+        node: string;
+        success: boolean;
+        /** The node stopped because another node failed or the run was cancelled */
+        cancelled?: boolean;
+        durationMs: number;
+        error?: Error;
+    };
+    /** A node's outputs were restored from the cache instead of running it */
+    'node:reused': {
+        node: string;
+    };
+    'item:cache-hit': {
+        node: string;
+        item: string;
+    };
+    'item:cache-miss': {
+        node: string;
+        item: string;
+        /** 'new': no cache entry; 'stale': the entry's dependencies changed */
+        reason: 'new' | 'stale';
+    };
+    /** Processing an item failed in a node with the 'collect' error policy; the item is skipped */
+    'item:failed': {
+        node: string;
+        item: string;
+        error: Error;
+        /** Time from the first attempt until the item was given up on */
+        durationMs: number;
+        attempts: number;
+    };
+    /** An attempt at an item failed and it is retried after `delayMs` (see PipelineNodeConfig.retry) */
+    'item:retry': {
+        node: string;
+        item: string;
+        /** The attempt that failed, starting at 1 */
+        attempt: number;
+        delayMs: number;
+        error: Error;
+    };
+    /** A cache miss was processed; the duration includes time waiting for a free worker */
+    'item:processed': {
+        node: string;
+        item: string;
+        durationMs: number;
+    };
+    /**
+     * Where the outputs of an item came from, whether it was processed or taken from the cache.
+     * Collected into the build manifest (see manifest.ts)
+     */
+    'item:provenance': {
+        node: string;
+        item: string;
+        outputs: Record<string, string[]>;
+        /** Signature of the node's config the outputs were built with */
+        contentSignature: string;
+        /** Files read besides the item, e.g. stylesheets and their imports, by how they were found */
+        inputs: Record<string, 'fileRef' | 'discovered' | 'explicit'>;
+    };
+    'worker:job-start': {
+        workerId: number;
+        node?: string;
+        /** Source or stylesheet path the job works on */
+        file?: string;
+    };
+    'worker:job-end': {
+        workerId: number;
+        node?: string;
+        file?: string;
+        success: boolean;
+        durationMs: number;
+        error?: Error;
+    };
+    /** Files a node wrote in its previous run but no longer produces were deleted */
+    'output:pruned': {
+        node: string;
+        files: string[];
+    };
+    /** Emitted periodically while nodes are running */
+    'progress': {
+        runningNodes: string[];
+        activeJobs: { workerId: number; node?: string; file?: string }[];
+    };
+    /** Watch mode started watching for changes after the initial build */
+    'watch:ready': {
+        directories: string[];
+    };
+    /** Watch mode picked up changed files and re-runs the nodes reading them, if any */
+    'watch:change': {
+        /** Relative to the working directory */
+        files: string[];
+        /** Nodes that will run, in topological order; empty if no node reads the files */
+        nodes: string[];
+    };
+    /** A build in watch mode failed; watching continues */
+    'watch:build-failed': {
+        /** The build before watching started */
+        initial: boolean;
+        error: Error;
+    };
+    'warning': {
+        message: string;
+        node?: string;
+    };
+    /** Free-form progress messages from nodes and the pipeline (context.log) */
+    'log': {
+        message: string;
+    };
+}
+
+export type PipelineEventName = keyof PipelineEventMap;
+export type PipelineEventListener<TName extends PipelineEventName> = (event: PipelineEventMap[TName]) => void;
+
+/**
+ * Typed event emitter for pipeline events.
+ *
+ * @example
+ * ```typescript
+ * const unsubscribe = pipeline.events.on('node:end', ({node, durationMs}) => {
+ *     progressBar.tick(node, durationMs);
+ * });
+ * ```
+ */
+export class PipelineEvents {
+    private emitter = new EventEmitter();
+
+    constructor() {
+        // Any number of reporters and UIs may subscribe
+        this.emitter.setMaxListeners(0);
+    }
+
+    /**
+     * Subscribe to an event. Returns a function that removes the listener.
+     */
+    on<TName extends PipelineEventName>(name: TName, listener: PipelineEventListener<TName>): () => void {
+        this.emitter.on(name, listener);
+        return () => this.off(name, listener);
+    }
+
+    once<TName extends PipelineEventName>(name: TName, listener: PipelineEventListener<TName>): () => void {
+        this.emitter.once(name, listener);
+        return () => this.off(name, listener);
+    }
+
+    off<TName extends PipelineEventName>(name: TName, listener: PipelineEventListener<TName>): void {
+        this.emitter.off(name, listener);
+    }
+
+    emit<TName extends PipelineEventName>(name: TName, event: PipelineEventMap[TName]): void {
+        this.emitter.emit(name, event);
+    }
+}
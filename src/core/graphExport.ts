@@ -0,0 +1,129 @@
+import {type PipelineGraph} from "./pipeline";
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+function quoteDot(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function escapeMermaid(value: string): string {
+    return value.replace(/"/g, '#quot;').replace(/\|/g, '#124;');
+}
+
+function nodeLabel(node: PipelineGraph['nodes'][number], lineBreak: string): string {
+    const label = `${node.name}${lineBreak}(${node.type})`;
+    return node.outputs.length > 0 ? `${label}${lineBreak}outputs: ${node.outputs.join(', ')}` : label;
+}
+
+/**
+ * Group nodes by the composite they were expanded from. Top-level nodes are listed under `undefined`.
+ */
+function groupByParent(graph: PipelineGraph): Map<string | undefined, PipelineGraph['nodes']> {
+    const groups = new Map<string | undefined, PipelineGraph['nodes']>();
+    for (const node of graph.nodes) {
+        const group = groups.get(node.parent) ?? [];
+        group.push(node);
+        groups.set(node.parent, group);
+    }
+    return groups;
+}
+
+/**
+ * Graphviz DOT. Composite nodes become clusters around their internal nodes;
+ * from() edges are labelled with the output key, inferred edges with the
+ * directory they were inferred from, explicit edges are dotted and
+ * composite-internal edges dashed.
+ */
+export function toDot(graph: PipelineGraph): string {
+    const lines = [`digraph ${quoteDot(graph.name)} {`, `    rankdir=LR;`, `    node [shape=box];`];
+    const groups = groupByParent(graph);
+
+    const writeNodes = (parent: string | undefined, indent: string) => {
+        for (const node of groups.get(parent) ?? []) {
+            const style = groups.has(node.name) ? ', style=bold' : '';
+            lines.push(`${indent}${quoteDot(node.name)} [label=${quoteDot(nodeLabel(node, '\n'))}${style}];`);
+        }
+        for (const node of groups.get(parent) ?? []) {
+            if (!groups.has(node.name)) continue;
+            lines.push(`${indent}subgraph ${quoteDot(`cluster_${node.name}`)} {`);
+            lines.push(`${indent}    label=${quoteDot(node.name)};`);
+            writeNodes(node.name, indent + '    ');
+            lines.push(`${indent}}`);
+        }
+    };
+    writeNodes(undefined, '    ');
+
+    for (const edge of graph.edges) {
+        const attributes: string[] = [];
+        if (edge.type === 'from-reference') {
+            attributes.push(`label=${quoteDot(edge.glob ? `${edge.output} (${edge.glob})` : edge.output!)}`);
+        } else if (edge.type === 'inferred') {
+            attributes.push(`label=${quoteDot(edge.outputDir!)}`, 'color=gray40');
+        } else if (edge.type === 'explicit') {
+            attributes.push('style=dotted');
+        } else {
+            attributes.push('style=dashed');
+        }
+        lines.push(`    ${quoteDot(edge.from)} -> ${quoteDot(edge.to)} [${attributes.join(', ')}];`);
+    }
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Mermaid flowchart. Node names may contain characters Mermaid does not accept
+ * in ids, so nodes get generated ids and keep their name as label.
+ */
+export function toMermaid(graph: PipelineGraph): string {
+    const lines = ['flowchart LR'];
+    const ids = new Map(graph.nodes.map((node, index) => [node.name, `n${index}`]));
+    const groups = groupByParent(graph);
+
+    const writeNodes = (parent: string | undefined, indent: string) => {
+        for (const node of groups.get(parent) ?? []) {
+            lines.push(`${indent}${ids.get(node.name)}["${escapeMermaid(nodeLabel(node, '<br/>'))}"]`);
+        }
+        for (const node of groups.get(parent) ?? []) {
+            if (!groups.has(node.name)) continue;
+            lines.push(`${indent}subgraph ${ids.get(node.name)}_internal["${escapeMermaid(node.name)}"]`);
+            writeNodes(node.name, indent + '    ');
+            lines.push(`${indent}end`);
+        }
+    };
+    writeNodes(undefined, '    ');
+
+    for (const edge of graph.edges) {
+        const from = ids.get(edge.from);
+        const to = ids.get(edge.to);
+        if (edge.type === 'from-reference') {
+            const label = edge.glob ? `${edge.output} (${edge.glob})` : edge.output!;
+            lines.push(`    ${from} -->|"${escapeMermaid(label)}"| ${to}`);
+        } else if (edge.type === 'inferred') {
+            lines.push(`    ${from} -->|"${escapeMermaid(edge.outputDir!)}"| ${to}`);
+        } else if (edge.type === 'explicit') {
+            lines.push(`    ${from} -.-> ${to}`);
+        } else {
+            lines.push(`    ${from} === ${to}`);
+        }
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+export function toJson(graph: PipelineGraph): string {
+    return JSON.stringify(graph, null, 2) + '\n';
+}
+
+export function formatGraph(graph: PipelineGraph, format: GraphFormat): string {
+    switch (format) {
+        case 'dot':
+            return toDot(graph);
+        case 'mermaid':
+            return toMermaid(graph);
+        case 'json':
+            return toJson(graph);
+    }
+}
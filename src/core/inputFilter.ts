@@ -0,0 +1,65 @@
+import path from "node:path";
+import {minimatch} from "minimatch";
+// @ts-ignore
+import SaxonJS from "saxonjs-he";
+import {type InputFilter} from "./pipeline";
+
+const DEFAULT_NAMESPACES: Record<string, string> = {
+    tei: "http://www.tei-c.org/ns/1.0"
+};
+
+function matchesAny(filePath: string, patterns: string | string[]): boolean {
+    const normalized = path.normalize(filePath);
+    return [patterns].flat().some(pattern => minimatch(normalized, path.normalize(pattern), {dot: true}));
+}
+
+async function evaluateXPath(filePath: string, filter: InputFilter): Promise<boolean> {
+    try {
+        const doc = await SaxonJS.getResource({file: path.resolve(filePath), type: 'xml'});
+        return SaxonJS.XPath.evaluate(`boolean((${filter.xpath}))`, doc, {
+            namespaceContext: {...DEFAULT_NAMESPACES, ...filter.namespaces}
+        });
+    } catch (err: any) {
+        throw new Error(`XPath filter "${filter.xpath}" failed for ${filePath}: ${err.message}`);
+    }
+}
+
+/**
+ * Whether a single file meets all conditions of a filter. With a `directory`, the globs and the regular
+ * expression see the path relative to it, e.g. to the pipeline file the filter was written in.
+ */
+export async function passesInputFilter(filePath: string, filter: InputFilter, directory?: string): Promise<boolean> {
+    const conditionPath = directory !== undefined ? path.relative(directory, filePath) : filePath;
+    if (filter.include !== undefined && !matchesAny(conditionPath, filter.include)) return false;
+    if (filter.exclude !== undefined && matchesAny(conditionPath, filter.exclude)) return false;
+    if (filter.match && !filter.match.test(conditionPath)) return false;
+    if (filter.predicate && !(await filter.predicate(filePath))) return false;
+    if (filter.xpath && !(await evaluateXPath(filePath, filter))) return false;
+    return true;
+}
+
+/**
+ * The files that meet all conditions of a filter, in their original order.
+ */
+export async function applyInputFilter(filePaths: string[], filter: InputFilter, directory?: string): Promise<string[]> {
+    const kept: string[] = [];
+    for (const filePath of filePaths) {
+        if (await passesInputFilter(filePath, filter, directory)) {
+            kept.push(filePath);
+        }
+    }
+    return kept;
+}
+
+/**
+ * Short description of a filter for error messages, e.g. `exclude "**\/drafts/**", xpath "..."`.
+ */
+export function describeInputFilter(filter: InputFilter): string {
+    const parts: string[] = [];
+    if (filter.include !== undefined) parts.push(`include ${JSON.stringify(filter.include)}`);
+    if (filter.exclude !== undefined) parts.push(`exclude ${JSON.stringify(filter.exclude)}`);
+    if (filter.match) parts.push(`match ${filter.match}`);
+    if (filter.predicate) parts.push('predicate');
+    if (filter.xpath) parts.push(`xpath ${JSON.stringify(filter.xpath)}`);
+    return parts.join(', ') || 'no conditions';
+}
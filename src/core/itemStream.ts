@@ -0,0 +1,56 @@
+/**
+ * Buffer of per-item outputs produced by a running node, for consumers that start before
+ * the node has finished. Each iterator replays the buffer from the start, so any number of
+ * consumers can read the same stream.
+ */
+export class ItemStream<T> {
+    private items: T[] = [];
+    private closed = false;
+    private failed = false;
+    private error: unknown;
+    private waiters: (() => void)[] = [];
+
+    push(item: T): void {
+        this.items.push(item);
+        this.wake();
+    }
+
+    /** No more items will be pushed; iterators finish after the buffered items */
+    close(): void {
+        this.closed = true;
+        this.wake();
+    }
+
+    /** The producer failed; iterators throw `error` after the buffered items */
+    fail(error: unknown): void {
+        this.failed = true;
+        this.error = error;
+        this.closed = true;
+        this.wake();
+    }
+
+    isClosed(): boolean {
+        return this.closed;
+    }
+
+    private wake(): void {
+        const waiters = this.waiters;
+        this.waiters = [];
+        waiters.forEach(resolve => resolve());
+    }
+
+    async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+        let index = 0;
+        while (true) {
+            if (index < this.items.length) {
+                yield this.items[index++];
+            } else if (this.failed) {
+                throw this.error;
+            } else if (this.closed) {
+                return;
+            } else {
+                await new Promise<void>(resolve => this.waiters.push(resolve));
+            }
+        }
+    }
+}
@@ -0,0 +1,47 @@
+import crypto from "node:crypto";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {from, Pipeline} from "./pipeline";
+import {readBuildManifest, traceFile} from "./manifest";
+import {CopyFilesNode} from "../io/copyFilesNode";
+import {createTestContext, InlineWorkerPool} from "../testing";
+
+const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+test("the manifest records every output by path, and files can be traced back to their sources", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a", "in/b.txt": "b"}});
+    try {
+        const copy = new CopyFilesNode({name: "copy", config: {sourceFiles: "in/*.txt"}, outputConfig: {outputDir: "out", stripPathPrefix: "in"}});
+        const publish = new CopyFilesNode({name: "publish", config: {sourceFiles: from(copy, "copied")}, outputConfig: {outputDir: "site", stripPathPrefix: "out"}});
+        const pipeline = new Pipeline("manifest").configure({directory: context.dir, consoleOutput: false}).addNode(copy, publish);
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        // Paths are relative to the pipeline's directory
+        const manifest = (await readBuildManifest(pipeline.buildDir))!;
+        assert.equal(manifest.pipeline, "manifest");
+        assert.deepEqual(Object.keys(manifest.files), ["out/a.txt", "out/b.txt", "site/a.txt", "site/b.txt"]);
+        const {hash, node, items} = manifest.files["out/b.txt"];
+        assert.deepEqual({hash, node, items}, {hash: sha256("b"), node: "copy", items: ["in/b.txt"]});
+
+        const lineage = traceFile(manifest, "site/a.txt");
+        assert.equal(lineage.entry!.node, "publish");
+        assert.deepEqual(lineage.from.map(({file, entry}) => ({file, node: entry?.node})), [{file: "out/a.txt", node: "copy"}]);
+        assert.deepEqual(lineage.from[0].from, [{file: "in/a.txt", from: []}]);
+
+        // A partial run replaces only the entries of the nodes it ran
+        await pipeline.run({workerPool: new InlineWorkerPool(), targets: ["copy"]});
+        assert.deepEqual(Object.keys((await readBuildManifest(pipeline.buildDir))!.files), Object.keys(manifest.files));
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("readBuildManifest returns undefined for a directory without a manifest", async () => {
+    const context = await createTestContext();
+    try {
+        assert.equal(await readBuildManifest(context.dir), undefined);
+    } finally {
+        await context.dispose();
+    }
+});
@@ -0,0 +1,223 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import crypto from "node:crypto";
+import {type NodeOutput} from "./pipeline";
+import {type PipelineEventMap, type PipelineEvents} from "./events";
+
+/** File name of the manifest in the build directory */
+export const MANIFEST_FILE = 'manifest.json';
+
+/**
+ * Where an output file came from. Paths are relative to the pipeline's directory.
+ */
+export interface ManifestEntry {
+    /** SHA-256 of the file's content */
+    hash: string;
+    /** Node that wrote the file */
+    node: string;
+    /** Input items the file was built from, e.g. the source EpiDoc of an HTML page */
+    items?: string[];
+    /** Signature of the node's config the file was built with */
+    contentSignature?: string;
+    /** Other files read to build it, e.g. stylesheets and their imports, by how they were found */
+    inputs?: PipelineEventMap['item:provenance']['inputs'];
+}
+
+/**
+ * Every output of a pipeline's last build by path, written to the build directory after every run.
+ * Nodes that run partially (targets, watch mode) replace only their own entries.
+ */
+export interface BuildManifest {
+    pipeline: string;
+    /**
+     * Files each node read and the nodes it depends on, for outputs whose node does not record
+     * the items they were built from
+     */
+    nodes: Record<string, { inputs: string[]; dependencies: string[] }>;
+    files: Record<string, ManifestEntry>;
+}
+
+/**
+ * A node that completed in the run the manifest is updated for.
+ */
+export interface ManifestNode {
+    name: string;
+    outputs: NodeOutput<any>[];
+    /** Source files the node read */
+    inputs: string[];
+    dependencies: string[];
+}
+
+type Provenance = Omit<ManifestEntry, 'hash'> & { items: string[] };
+
+/**
+ * Collects the provenance of output files from item:provenance events.
+ */
+export class ManifestCollector {
+    // By absolute output path
+    private provenance = new Map<string, Provenance>();
+    private subscriptions: (() => void)[] = [];
+
+    /** @param directory the pipeline's directory, which recorded paths are made relative to */
+    constructor(events: PipelineEvents, directory: string = process.cwd()) {
+        const relativePath = (filePath: string) => relativeTo(directory, filePath);
+        this.subscriptions.push(
+            events.on('item:provenance', ({node, item, outputs, contentSignature, inputs}) => {
+                for (const filePath of Object.values(outputs).flat()) {
+                    const key = path.resolve(filePath);
+                    const known = this.provenance.get(key);
+                    // Outputs built from several items, e.g. an index of all documents, list all of them
+                    if (known?.node === node) {
+                        known.items.push(relativePath(item));
+                        Object.assign(known.inputs!, relativeInputs(inputs, relativePath));
+                    } else {
+                        this.provenance.set(key, {node, items: [relativePath(item)], contentSignature, inputs: relativeInputs(inputs, relativePath)});
+                    }
+                }
+            })
+        );
+    }
+
+    detach(): void {
+        this.subscriptions.forEach(unsubscribe => unsubscribe());
+        this.subscriptions = [];
+    }
+
+    getProvenance(): ReadonlyMap<string, Provenance> {
+        return this.provenance;
+    }
+}
+
+function relativeTo(directory: string, filePath: string): string {
+    return path.relative(path.resolve(directory), path.resolve(filePath));
+}
+
+function relativeInputs(inputs: ManifestEntry['inputs'] = {}, relativePath: (filePath: string) => string): NonNullable<ManifestEntry['inputs']> {
+    return Object.fromEntries(Object.entries(inputs).map(([filePath, source]) => [relativePath(filePath), source]));
+}
+
+/**
+ * Read the manifest from a build directory; undefined if there is none.
+ */
+export async function readBuildManifest(dir: string): Promise<BuildManifest | undefined> {
+    try {
+        return JSON.parse(await fs.readFile(path.join(dir, MANIFEST_FILE), 'utf-8'));
+    } catch (err: any) {
+        if (err.code === 'ENOENT') return undefined;
+        throw new Error(`Could not read ${path.join(dir, MANIFEST_FILE)}: ${err.message}`);
+    }
+}
+
+/**
+ * Update the manifest in the given directory with the outputs of the nodes that completed in a
+ * run. Entries of other nodes are kept while their files exist and their node is one of
+ * `pipelineNodes`. Paths are written relative to `directory`, the pipeline's directory. Returns the path written.
+ */
+export async function updateBuildManifest(
+    dir: string,
+    pipeline: string,
+    pipelineNodes: string[],
+    completed: ManifestNode[],
+    provenance: ReadonlyMap<string, Provenance>,
+    directory: string = process.cwd()
+): Promise<string> {
+    const relativePath = (filePath: string) => relativeTo(directory, filePath);
+    const previous = await readBuildManifest(dir).catch(() => undefined);
+    const completedNames = new Set(completed.map(node => node.name));
+    const knownNodes = new Set(pipelineNodes);
+
+    const files: Record<string, ManifestEntry> = {};
+    const nodes: BuildManifest['nodes'] = {};
+    if (previous?.pipeline === pipeline) {
+        for (const [file, entry] of Object.entries(previous.files)) {
+            if (completedNames.has(entry.node) || !knownNodes.has(entry.node)) continue;
+            if (await fs.stat(path.resolve(directory, file)).then(stats => stats.isFile(), () => false)) {
+                files[file] = entry;
+            }
+        }
+        for (const [name, node] of Object.entries(previous.nodes)) {
+            if (!completedNames.has(name) && knownNodes.has(name)) nodes[name] = node;
+        }
+    }
+
+    for (const node of completed) {
+        let recordsItems = true;
+        for (const output of node.outputs) {
+            for (const outputPath of Object.values(output).flat() as string[]) {
+                // Directory outputs, e.g. a generated site, stand for all files below them
+                for (const filePath of await listFiles(path.resolve(outputPath))) {
+                    const record = provenance.get(filePath) ?? provenance.get(path.resolve(outputPath));
+                    const hash = crypto.createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+                    const entry: ManifestEntry = {hash, node: node.name};
+                    if (record?.node === node.name) {
+                        entry.items = [...new Set(record.items)].sort();
+                        entry.contentSignature = record.contentSignature;
+                        if (Object.keys(record.inputs ?? {}).length > 0) entry.inputs = record.inputs;
+                    } else {
+                        recordsItems = false;
+                    }
+                    files[relativePath(filePath)] = entry;
+                }
+            }
+        }
+        if (!recordsItems) {
+            nodes[node.name] = {inputs: node.inputs.map(relativePath).sort(), dependencies: [...node.dependencies].sort()};
+        }
+    }
+
+    // Sorted, so that the same build writes the same manifest
+    const manifest: BuildManifest = {
+        pipeline,
+        nodes: Object.fromEntries(Object.entries(nodes).sort(([a], [b]) => a.localeCompare(b))),
+        files: Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b)))
+    };
+
+    await fs.mkdir(dir, {recursive: true});
+    const manifestPath = path.join(dir, MANIFEST_FILE);
+    await fs.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
+    return manifestPath;
+}
+
+// A file is listed as itself; missing outputs (e.g. pruned since) are left out
+async function listFiles(filePath: string): Promise<string[]> {
+    const stats = await fs.stat(filePath).catch(() => undefined);
+    if (!stats) return [];
+    if (!stats.isDirectory()) return [filePath];
+
+    const entries = await fs.readdir(filePath, {recursive: true, withFileTypes: true});
+    return entries.filter(entry => entry.isFile()).map(entry => path.join(entry.parentPath, entry.name)).sort();
+}
+
+/**
+ * A file and the files it was built from, back to source files no node of the pipeline wrote.
+ */
+export interface FileLineage {
+    file: string;
+    /** Undefined for source files */
+    entry?: ManifestEntry;
+    /** How the file was read by the node that depends on it; undefined for items and the file asked about */
+    source?: 'fileRef' | 'discovered' | 'explicit';
+    /** Lineage of the items and inputs of the file; empty for source files and files seen earlier in the tree */
+    from: FileLineage[];
+    /** The file's lineage is already shown elsewhere in the tree */
+    repeated?: boolean;
+}
+
+/**
+ * Walk the lineage of a file back through the manifest. Each file's lineage is expanded once.
+ */
+export function traceFile(manifest: BuildManifest, file: string, seen = new Set<string>()): FileLineage {
+    const entry = manifest.files[file];
+    if (!entry) return {file, from: []};
+    if (seen.has(file)) return {file, entry, from: [], repeated: true};
+    seen.add(file);
+
+    const from: FileLineage[] = [];
+    for (const item of entry.items ?? []) {
+        from.push(traceFile(manifest, item, seen));
+    }
+    for (const [input, source] of Object.entries(entry.inputs ?? {})) {
+        from.push({...traceFile(manifest, input, seen), source});
+    }
+    return {file, entry, from};
+}
@@ -0,0 +1,145 @@
+import {type NodeOutput, type PipelineContext, type PipelineNode, type PipelineNodeConfig} from "./pipeline";
+import {CompositeNode} from "./compositeNode";
+import {type ConfigSchema} from "./configSchema";
+
+/**
+ * One combination of matrix parameters, passed to the template.
+ */
+export interface MatrixVariant<TParams> {
+    /** Identifies the variant in node names and output keys: the parameter values joined by "-", e.g. "en" */
+    key: string;
+    params: TParams;
+    /** Name for one of the variant's nodes, e.g. name("prune") → "languages:en:prune" */
+    name(step: string): string;
+}
+
+interface MatrixNodeConfig<TParams extends Record<string, unknown>> extends PipelineNodeConfig {
+    config: {
+        /** Values of each parameter; one variant is created for every combination */
+        matrix: { [K in keyof TParams]: TParams[K][] };
+        /** Creates the nodes of one variant. Nodes must be named with variant.name() */
+        template: (variant: MatrixVariant<TParams>) => PipelineNode<any, any>[];
+        /** Outputs to expose, by the step name of the node producing them and its output key */
+        outputs: Record<string, { step: string, output: string }>;
+    };
+}
+
+/**
+ * Fan-out composite that creates the same chain of nodes for every combination of a
+ * parameter matrix, e.g. one prune → transform → frontmatter chain per language.
+ *
+ * Each exposed output is available per variant as "output:key" and combined over all
+ * variants as "output". Per-variant outputs stream like those of the internal nodes;
+ * the combined output is complete once all variants are done.
+ *
+ * @example
+ * ```typescript
+ * const languages = new MatrixNode({
+ *     name: "languages",
+ *     config: {
+ *         matrix: {language: ["en", "de"]},
+ *         template: ({params: {language}, name}) => {
+ *             const prune = new XsltTransformNode({
+ *                 name: name("prune"),
+ *                 config: {sourceFiles: "1-input/*.xml", stylesheet: fileRef("prune.xsl"), stylesheetParams: {language}}
+ *             });
+ *             const html = new XsltTransformNode({
+ *                 name: name("html"),
+ *                 config: {sourceFiles: from(prune, "transformed"), stylesheet: fileRef("to-html.xsl")},
+ *                 outputConfig: {outputDir: `2-intermediate/${language}`}
+ *             });
+ *             return [prune, html];
+ *         },
+ *         outputs: {html: {step: "html", output: "transformed"}}
+ *     }
+ * });
+ * // from(languages, "html:de") or from(languages, "html")
+ * ```
+ */
+export class MatrixNode<TParams extends Record<string, unknown>> extends CompositeNode<MatrixNodeConfig<TParams>, string> {
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            matrix: {type: 'object', required: true, values: 'array'},
+            template: {type: 'function', required: true},
+            outputs: {type: 'object', required: true, values: 'object'}
+        },
+        outputConfig: {}
+    };
+
+    /**
+     * All combinations of the matrix parameters, in the order the parameters and values are listed.
+     */
+    getVariants(): MatrixVariant<TParams>[] {
+        if (Object.keys(this.config.config.matrix).length === 0) {
+            throw new Error(`MatrixNode ${this.name}: the matrix has no parameters`);
+        }
+
+        let combinations: Record<string, unknown>[] = [{}];
+        for (const [param, values] of Object.entries(this.config.config.matrix) as [string, unknown[]][]) {
+            if (values.length === 0) {
+                throw new Error(`MatrixNode ${this.name}: parameter "${param}" has no values`);
+            }
+            combinations = combinations.flatMap(combination => values.map(value => ({...combination, [param]: value})));
+        }
+
+        return combinations.map(params => {
+            const key = Object.values(params).map(String).join('-');
+            return {key, params: params as TParams, name: (step: string) => `${this.name}:${key}:${step}`};
+        });
+    }
+
+    protected buildInternalNodes(): void {
+        const variants = this.getVariants();
+        const createdBy = new Map<string, string>();
+
+        for (const variant of variants) {
+            if (variants.filter(other => other.key === variant.key).length > 1) {
+                throw new Error(`MatrixNode ${this.name}: several variants have the key "${variant.key}"`);
+            }
+
+            const nodes = this.config.config.template(variant);
+            for (const node of nodes) {
+                const otherVariant = createdBy.get(node.name);
+                if (otherVariant !== undefined) {
+                    throw new Error(
+                        `MatrixNode ${this.name}: variants "${otherVariant}" and "${variant.key}" both create a node named ` +
+                        `"${node.name}". Name the template's nodes with variant.name()`
+                    );
+                }
+                createdBy.set(node.name, variant.key);
+            }
+            this.internalNodes.push(...nodes);
+
+            for (const [outputName, {step, output}] of Object.entries(this.config.config.outputs)) {
+                const nodeName = variant.name(step);
+                if (!nodes.some(node => node.name === nodeName)) {
+                    throw new Error(`MatrixNode ${this.name}: output "${outputName}" refers to step "${step}", but variant "${variant.key}" has no node "${nodeName}"`);
+                }
+                this.outputMappings[`${outputName}:${variant.key}`] = {node: nodeName, output};
+            }
+        }
+    }
+
+    getOutputKeys(): readonly string[] {
+        return [...Object.keys(this.config.config.outputs), ...super.getOutputKeys()];
+    }
+
+    /**
+     * Per-variant outputs, followed by the same files under the combined output names.
+     */
+    async run(context: PipelineContext): Promise<NodeOutput<string>[]> {
+        const perVariant = await super.run(context);
+
+        const combinedName = new Map<string, string>();
+        for (const variant of this.getVariants()) {
+            for (const outputName of Object.keys(this.config.config.outputs)) {
+                combinedName.set(`${outputName}:${variant.key}`, outputName);
+            }
+        }
+
+        const combined = perVariant.map(output => Object.fromEntries(
+            Object.entries(output).map(([key, paths]) => [combinedName.get(key)!, paths])
+        ));
+        return [...perVariant, ...combined];
+    }
+}
@@ -0,0 +1,68 @@
+import {type PipelineNode} from "./pipeline";
+import {XsltTransformNode} from "../xml/nodes/xsltTransformNode";
+import {CompileStylesheetNode} from "../xml/nodes/compileStylesheetNode";
+import {SefTransformNode} from "../xml/nodes/sefTransformNode";
+import {CopyFilesNode} from "../io/copyFilesNode";
+import {ZipCompressNode} from "../io/zipCompressNode";
+import {EleventyBuildNode, AggregateIndexDataNode, AggregateBibConcordanceNode, AggregateSearchDataNode} from "../eleventy";
+import {FlexSearchIndexNode} from "../search/flexSearchIndexNode";
+import {SubPipelineNode} from "./subPipelineNode";
+import {MatrixNode} from "./matrixNode";
+
+export type NodeClass = new (config: any) => PipelineNode<any, any>;
+
+/**
+ * Maps type names used in declarative pipeline definitions to node classes.
+ *
+ * @example
+ * ```typescript
+ * import {nodeRegistry} from "../../src/core/nodeRegistry";
+ *
+ * nodeRegistry.register("MyCustomNode", MyCustomNode);
+ * ```
+ */
+export class NodeRegistry {
+    private types = new Map<string, NodeClass>();
+
+    register(typeName: string, nodeClass: NodeClass): this {
+        const existing = this.types.get(typeName);
+        if (existing && existing !== nodeClass) {
+            throw new Error(`Node type "${typeName}" is already registered`);
+        }
+        this.types.set(typeName, nodeClass);
+        return this;
+    }
+
+    has(typeName: string): boolean {
+        return this.types.has(typeName);
+    }
+
+    get(typeName: string): NodeClass {
+        const nodeClass = this.types.get(typeName);
+        if (!nodeClass) {
+            throw new Error(`Unknown node type "${typeName}". Registered types: ${this.getTypeNames().join(', ')}`);
+        }
+        return nodeClass;
+    }
+
+    getTypeNames(): string[] {
+        return Array.from(this.types.keys()).sort();
+    }
+}
+
+/**
+ * Default registry with all built-in node types.
+ */
+export const nodeRegistry = new NodeRegistry()
+    .register('XsltTransformNode', XsltTransformNode)
+    .register('CompileStylesheetNode', CompileStylesheetNode)
+    .register('SefTransformNode', SefTransformNode)
+    .register('CopyFilesNode', CopyFilesNode)
+    .register('ZipCompressNode', ZipCompressNode)
+    .register('EleventyBuildNode', EleventyBuildNode)
+    .register('AggregateIndexDataNode', AggregateIndexDataNode)
+    .register('AggregateBibConcordanceNode', AggregateBibConcordanceNode)
+    .register('AggregateSearchDataNode', AggregateSearchDataNode)
+    .register('FlexSearchIndexNode', FlexSearchIndexNode)
+    .register('SubPipelineNode', SubPipelineNode)
+    .register('MatrixNode', MatrixNode);
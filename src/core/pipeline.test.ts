@@ -0,0 +1,371 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {type Input, Pipeline, type PipelineContext, PipelineNode, type PipelineNodeConfig} from "./pipeline";
+import {CacheManager} from "./cache";
+import {type ConfigSchema} from "./configSchema";
+import {CopyFilesNode} from "../io/copyFilesNode";
+import {createTestContext, InlineWorkerPool} from "../testing";
+
+// Outputs whatever files the test lists, without writing them
+class ListedOutputsNode extends PipelineNode<PipelineNodeConfig, "files"> {
+    files: string[] = [];
+
+    async run() {
+        return [{files: this.files}];
+    }
+}
+
+// Copies its text files with withCache, failing for files that contain "fail"
+class CachedCopyNode extends PipelineNode<PipelineNodeConfig & { config: { files: Input } }, "copied"> {
+    static readonly configSchema: ConfigSchema = {config: {files: {type: 'input', required: true}}};
+
+    async run(context: PipelineContext) {
+        const outputPath = (item: string) => context.getBuildPath(this.name, item);
+        const results = await this.withCache<"copied">(
+            context,
+            await context.resolveInput(this.config.config.files),
+            item => item,
+            () => path.join(context.buildDir, this.name),
+            item => outputPath(item),
+            async item => {
+                const content = await fs.readFile(item, "utf-8");
+                if (content === "fail") throw new Error(`Cannot copy ${item}`);
+                await fs.mkdir(path.dirname(outputPath(item)), {recursive: true});
+                await fs.writeFile(outputPath(item), content);
+                return {outputs: {copied: [outputPath(item)]}};
+            }
+        );
+        return results.map(result => result.outputs);
+    }
+}
+
+// Runs `work` for a single item with withCache, so tests control how the work behaves
+class WorkNode extends PipelineNode<PipelineNodeConfig, "written"> {
+    work: (signal: AbortSignal) => Promise<void> = async () => {};
+
+    async run(context: PipelineContext) {
+        const outputPath = path.join(context.buildDir, this.name, "out.txt");
+        const results = await this.withCache<"written">(
+            context,
+            ["item"],
+            item => item,
+            () => path.join(context.buildDir, this.name),
+            () => outputPath,
+            async (_item, signal) => {
+                await this.work(signal);
+                await fs.mkdir(path.dirname(outputPath), {recursive: true});
+                await fs.writeFile(outputPath, "done");
+                return {outputs: {written: [outputPath]}};
+            }
+        );
+        return results.map(result => result.outputs);
+    }
+}
+
+// Runs `step` instead of doing any work, so tests control how long a node takes and whether it fails
+class StepNode extends PipelineNode<PipelineNodeConfig, string> {
+    step: (signal?: AbortSignal) => Promise<void> = async () => {};
+
+    async run(context: PipelineContext) {
+        await this.step(context.signal);
+        return [];
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Rejects with the abort reason once the signal aborts
+const untilAborted = (signal?: AbortSignal) =>
+    new Promise<void>((_, reject) => signal!.addEventListener('abort', () => reject(signal!.reason), {once: true}));
+
+// Node starts and ends in the order the pipeline reports them, e.g. "start:copy"
+function recordNodes(pipeline: Pipeline): string[] {
+    const events: string[] = [];
+    pipeline.events.on('node:start', ({node}) => events.push(`start:${node}`));
+    pipeline.events.on('node:end', ({node, cancelled}) => events.push(`${cancelled ? 'cancel' : 'end'}:${node}`));
+    return events;
+}
+
+test("run validates the nodes first unless validate is false", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a"}});
+    try {
+        // Both nodes write out/a.txt
+        const pipeline = new Pipeline("validation").configure({directory: context.dir, consoleOutput: false}).addNode(
+            new CopyFilesNode({name: "copy", config: {sourceFiles: "in/*.txt"}, outputConfig: {outputDir: "out", stripPathPrefix: "in"}}),
+            new CopyFilesNode({name: "copy-again", config: {sourceFiles: "in/*.txt"}, outputConfig: {outputDir: "out", stripPathPrefix: "in"}})
+        );
+
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool()}), /Pipeline validation failed/);
+        await pipeline.run({workerPool: new InlineWorkerPool(), validate: false});
+        assert.equal(await fs.readFile(context.path("out/a.txt"), "utf-8"), "a");
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("stale outputs are only pruned inside the node's output directories and never recursively", async () => {
+    const context = await createTestContext({files: {
+        "out/a.txt": "a",
+        "out/site/index.html": "<html/>",
+        "elsewhere/b.txt": "b"
+    }});
+    try {
+        await fs.mkdir(context.path("out/empty"));
+        const node = new ListedOutputsNode({name: "list", config: {}, outputConfig: {outputDir: "out"}});
+        const pipeline = new Pipeline("prune").configure({directory: context.dir, consoleOutput: false}).addNode(node);
+        const warnings: string[] = [];
+        pipeline.events.on('warning', ({message}) => warnings.push(message));
+
+        node.files = ["out/a.txt", "out/site", "out/empty", "elsewhere/b.txt"].map(file => context.path(file));
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        node.files = [];
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        const exists = (file: string) => fs.access(context.path(file)).then(() => true, () => false);
+        assert.equal(await exists("out/a.txt"), false);
+        assert.equal(await exists("out/empty"), false);
+        assert.equal(await exists("out/site/index.html"), true);
+        assert.equal(await exists("elsewhere/b.txt"), true);
+        assert.equal(warnings.length, 2);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("cache entries of removed items are only pruned once the node's work has succeeded", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a", "in/b.txt": "b"}});
+    try {
+        const pipeline = new Pipeline("prune").configure({directory: context.dir, consoleOutput: false})
+            .addNode(new CachedCopyNode({name: "copy", config: {files: "in/*.txt"}}));
+        const entries = async () => (await new CacheManager(context.path(".efes-cache")).getStats())
+            .reduce((sum, {entries}) => sum + entries, 0);
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(await entries(), 2);
+
+        await fs.rm(context.path("in/b.txt"));
+        await fs.writeFile(context.path("in/a.txt"), "fail");
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool()}), /Cannot copy/);
+        assert.equal(await entries(), 2);
+
+        await fs.writeFile(context.path("in/a.txt"), "a2");
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(await entries(), 1);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("a timed-out attempt is aborted and has stopped before the item is retried", async () => {
+    const context = await createTestContext();
+    try {
+        const node = new WorkNode({name: "work", config: {}, timeout: 50, retry: {attempts: 1, delayMs: 0}});
+        const pipeline = new Pipeline("timeout").configure({directory: context.dir, consoleOutput: false}).addNode(node);
+        let attempts = 0, running = 0, maxRunning = 0;
+        const reasons: unknown[] = [];
+        node.work = async signal => {
+            attempts++;
+            maxRunning = Math.max(maxRunning, ++running);
+            try {
+                if (attempts === 1) {
+                    await new Promise(resolve => signal.addEventListener('abort', resolve, {once: true}));
+                    reasons.push(signal.reason);
+                    // Cleaning up takes a while
+                    await new Promise(resolve => setTimeout(resolve, 100));
+                    throw signal.reason;
+                }
+            } finally {
+                running--;
+            }
+        };
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        assert.equal(attempts, 2);
+        assert.equal(maxRunning, 1);
+        assert.equal((reasons[0] as any).code, 'ETIMEDOUT');
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("in dynamic mode a node starts as soon as its own dependencies are done", async () => {
+    const context = await createTestContext();
+    try {
+        const slow = new StepNode({name: "slow", config: {}});
+        slow.step = () => sleep(150);
+        const pipeline = new Pipeline("dynamic").configure({directory: context.dir, consoleOutput: false, executionMode: 'dynamic'}).addNode(
+            slow,
+            new StepNode({name: "fast", config: {}}),
+            new StepNode({name: "after-fast", config: {}, explicitDependencies: ["fast"]})
+        );
+        const events = recordNodes(pipeline);
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        assert.ok(events.indexOf("start:after-fast") < events.indexOf("end:slow"), events.join(", "));
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("a failing node cancels the running ones and nothing starts after it", async () => {
+    const context = await createTestContext();
+    try {
+        const fails = new StepNode({name: "fails", config: {}});
+        fails.step = async () => {
+            await sleep(20);
+            throw new Error("boom");
+        };
+        const waits = new StepNode({name: "waits", config: {}});
+        waits.step = untilAborted;
+        const pipeline = new Pipeline("cancel").configure({directory: context.dir, consoleOutput: false, executionMode: 'dynamic'})
+            .addNode(fails, waits, new StepNode({name: "after", config: {}, explicitDependencies: ["waits"]}));
+        const events = recordNodes(pipeline);
+
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool()}), /boom/);
+
+        assert.ok(events.includes("cancel:waits"), events.join(", "));
+        assert.ok(!events.includes("start:after"), events.join(", "));
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("aborting the run's signal cancels it", async () => {
+    const context = await createTestContext();
+    try {
+        const waits = new StepNode({name: "waits", config: {}});
+        waits.step = untilAborted;
+        const pipeline = new Pipeline("cancel").configure({directory: context.dir, consoleOutput: false}).addNode(waits);
+        const events = recordNodes(pipeline);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(new Error("Build cancelled")), 20);
+
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool(), signal: controller.signal}), /Build cancelled/);
+        assert.deepEqual(events, ["start:waits", "cancel:waits"]);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("failing items are retried with a doubling delay until the attempts are used up", async () => {
+    const context = await createTestContext();
+    try {
+        const flaky = new WorkNode({name: "flaky", config: {}, retry: {attempts: 2, delayMs: 10}});
+        let attempts = 0;
+        flaky.work = async () => {
+            if (++attempts < 3) throw new Error(`attempt ${attempts} failed`);
+        };
+        const broken = new WorkNode({name: "broken", config: {}, retry: {attempts: 1, delayMs: 10}, onError: 'collect'});
+        broken.work = async () => {
+            throw new Error("always fails");
+        };
+        const pipeline = new Pipeline("retry").configure({directory: context.dir, consoleOutput: false}).addNode(flaky);
+        const retries: number[] = [];
+        pipeline.events.on('item:retry', ({delayMs}) => retries.push(delayMs));
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(attempts, 3);
+        assert.deepEqual(retries, [10, 20]);
+
+        // Same config as `flaky`, so it needs its own cache
+        const failing = new Pipeline("retry").configure({directory: context.dir, cacheDir: context.path("other-cache"), consoleOutput: false}).addNode(broken);
+        const failures: number[] = [];
+        failing.events.on('item:failed', ({attempts}) => failures.push(attempts));
+        await assert.rejects(failing.run({workerPool: new InlineWorkerPool()}), /1 item\(s\) failed/);
+        assert.deepEqual(failures, [2]);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("variables are substituted per profile and dependencies follow the resolved paths", async () => {
+    const context = await createTestContext({files: {"en/a.txt": "a", "de/b.txt": "b"}});
+    try {
+        // `publish` reads what `copy` writes, through the same variable
+        const pipeline = new Pipeline("profiles").configure({
+            directory: context.dir,
+            consoleOutput: false,
+            variables: {language: "en", site: "site-en"},
+            profiles: {de: {language: "de", site: "site-de"}}
+        }).addNode(
+            new CopyFilesNode({name: "publish", config: {sourceFiles: "${site}/texts/*.txt"},
+                outputConfig: {outputDir: "published/${language}", stripPathPrefix: "${site}/texts"}}),
+            new CopyFilesNode({name: "copy", config: {sourceFiles: "${language}/*.txt"},
+                outputConfig: {outputDir: "${site}/texts", stripPathPrefix: "${language}"}})
+        );
+        const exists = (file: string) => fs.access(context.path(file)).then(() => true, () => false);
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(await exists("published/en/a.txt"), true);
+
+        pipeline.configure({profile: "de"});
+        assert.ok(pipeline.getGraph().edges.some(edge => edge.from === "copy" && edge.to === "publish" && edge.type === 'inferred'));
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(await exists("published/de/b.txt"), true);
+
+        const undefinedVariable = new Pipeline("profiles").configure({directory: context.dir, consoleOutput: false})
+            .addNode(new CopyFilesNode({name: "copy", config: {sourceFiles: "${missing}/*.txt"}, outputConfig: {outputDir: "out"}}));
+        assert.throws(() => undefinedVariable.getNodes(), /copy: config\.sourceFiles: unknown variable "missing"/);
+        assert.throws(() => pipeline.configure({profile: "staging"}).getNodes(), /staging/);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("nodes reading another node's output directory depend on it, and explicit dependencies on it are redundant", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a"}});
+    try {
+        const pipeline = new Pipeline("inference").configure({directory: context.dir, consoleOutput: false}).addNode(
+            new CopyFilesNode({name: "read", config: {sourceFiles: "site/**/*.txt"}, outputConfig: {outputDir: "out", stripPathPrefix: "site"},
+                explicitDependencies: ["write"]}),
+            new CopyFilesNode({name: "write", config: {sourceFiles: "in/*.txt"}, outputConfig: {outputDir: "site/data", stripPathPrefix: "in"}})
+        );
+
+        const edges = pipeline.getGraph().edges.filter(edge => edge.from === "write" && edge.to === "read");
+        assert.deepEqual(edges.map(edge => edge.type).sort(), ['explicit', 'inferred']);
+        const issues = await pipeline.validate();
+        assert.deepEqual(issues.map(({node, check, severity}) => ({node, check, severity})),
+            [{node: "read", check: 'redundant-dependency', severity: 'warning'}]);
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.equal(await fs.readFile(context.path("out/data/a.txt"), "utf-8"), "a");
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("plugins are called at every hook and can augment outputs, reject nodes and report issues", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a"}});
+    try {
+        const calls: string[] = [];
+        const pipeline = new Pipeline("plugins").configure({directory: context.dir, consoleOutput: false})
+            .addNode(new CachedCopyNode({name: "copy", config: {files: "in/*.txt"}}))
+            .use({
+                name: "recorder",
+                runStart: () => { calls.push("runStart"); },
+                beforeNode: (_context, node) => { calls.push(`beforeNode:${node.name}`); },
+                afterItem: (_context, node, item, outputs) => {
+                    calls.push(`afterItem:${node.name}`);
+                    return {...outputs, stamped: [`${item}.stamp`]};
+                },
+                afterNode: (_context, node) => { calls.push(`afterNode:${node.name}`); },
+                runEnd: (_context, {success}) => { calls.push(`runEnd:${success}`); }
+            });
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+        assert.deepEqual(calls, ["runStart", "beforeNode:copy", "afterItem:copy", "afterNode:copy", "runEnd:true"]);
+        assert.deepEqual(pipeline.getNodeOutputs("copy")!.flatMap(output => output.stamped), [`${context.path("in/a.txt")}.stamp`]);
+
+        pipeline.use({name: "veto", afterNode: () => { throw new Error("not today"); }});
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool()}), /Plugin "veto" \(afterNode\): not today/);
+
+        pipeline.use({name: "checks", validate: () => [{severity: 'error', check: 'plugin', node: "copy", message: "no stamps"}]});
+        await assert.rejects(pipeline.run({workerPool: new InlineWorkerPool()}), /\[copy\] no stamps/);
+    } finally {
+        await context.dispose();
+    }
+});
@@ -1,24 +1,51 @@
 import {DepGraph} from "dependency-graph";
-import {CacheManager} from "./cache";
+import {type CacheEntry, CacheManager} from "./cache";
 import {glob} from "glob";
+import {escape, minimatch} from "minimatch";
 import path from "node:path";
 import crypto from "node:crypto";
 import fs from "node:fs/promises";
 import fsSync from "node:fs";
+import os from "node:os";
 import {fileURLToPath} from "node:url";
-import {WorkerPool} from "../xml/workerPool";
+import {setTimeout as delay} from "node:timers/promises";
+import {type JobOptions, WorkerPool, type WorkerPoolListener} from "../xml/workerPool";
+import {type ItemFailure, PipelineEvents, type PipelineEventMap} from "./events";
+import {ConsoleReporter} from "./consoleReporter";
+import {BuildReportCollector, writeBuildReport} from "./buildReport";
+import {ManifestCollector, updateBuildManifest} from "./manifest";
+import {ItemStream} from "./itemStream";
+import {type ConfigSchema, resolveConfigPaths, validateNodeConfig} from "./configSchema";
+import {applyInputFilter, describeInputFilter, passesInputFilter} from "./inputFilter";
+import {resolveProfileVariables, substituteVariables} from "./variables";
+import {callPlugins, type PipelinePlugin, transformWithPlugins} from "./plugins";
+import type {CompositeNode} from "./compositeNode";
 
 interface NodeOutputReference {
     node: PipelineNode<any, any>;
     name: string;
     glob?: string;  // Optional glob pattern to filter output files
+    // Directory a glob matching outputs outside the build directory is relative to, set by resolveConfigPaths
+    directory?: string;
 }
 
 export function inputIsNodeOutputReference(input: Input): input is NodeOutputReference {
     return typeof input === 'object' && 'node' in input && 'name' in input;
 }
 
-export type Input = string | string[] | NodeOutputReference;
+export function inputIsFilteredInput(input: Input): input is FilteredInput {
+    return typeof input === 'object' && !Array.isArray(input) && (input as FilteredInput).type === 'filtered-input';
+}
+
+/**
+ * Whether a node is a CompositeNode. Checked by shape, since compositeNode.ts imports this module
+ * and its class is not available while this module is being loaded.
+ */
+export function isCompositeNode(node: PipelineNode<any, any>): node is CompositeNode<any, any> {
+    return 'getInternalNodes' in node && typeof node.getInternalNodes === 'function';
+}
+
+export type Input = string | string[] | NodeOutputReference | FilteredInput | Input[];
 export type NodeOutput<TKey extends string> = Record<TKey, string[]>;
 
 // File reference type for tracking dependencies in config
@@ -36,6 +63,49 @@ export function fileRef(path: string): FileRef {
     return { type: 'file', path };
 }
 
+/**
+ * Conditions a file must meet to be kept by filter(). All given conditions must hold;
+ * the cheap path checks run before the predicate and the XPath test.
+ */
+export interface InputFilter {
+    /** Keep only paths matching one of these globs */
+    include?: string | string[];
+    /** Drop paths matching any of these globs, e.g. "**\/drafts/**" */
+    exclude?: string | string[];
+    /** Keep only paths matching this regular expression */
+    match?: RegExp;
+    /** Keep only paths for which this returns true. Part of the cache signature via its source text */
+    predicate?: (filePath: string) => boolean | Promise<boolean>;
+    /** Keep only XML files for which this XPath expression is true, e.g. "//tei:revisionDesc/@status = 'published'" */
+    xpath?: string;
+    /** Namespace prefixes for `xpath`. `tei` is bound to the TEI namespace by default */
+    namespaces?: Record<string, string>;
+}
+
+export interface FilteredInput {
+    type: 'filtered-input';
+    input: Input;
+    filter: InputFilter;
+    /** Directory the filter's globs and regular expression see paths relative to, set by resolveConfigPaths */
+    directory?: string;
+}
+
+/**
+ * Narrow an input (globs, from() references or both) to the files that meet a filter.
+ * The filter is part of the consuming node's cache signature.
+ *
+ * @example
+ * ```typescript
+ * sourceFiles: filter("1-input/inscriptions/*.xml", {
+ *     exclude: "**\/drafts/**",
+ *     xpath: "//tei:revisionDesc/@status = 'published'"
+ * })
+ * ```
+ */
+export function filter(input: Input, options: InputFilter): FilteredInput {
+    return {type: 'filtered-input', input, filter: options};
+}
+
 /**
  * Unified output configuration for all node types.
  * Provides smart defaults and escape hatches for common path manipulation patterns.
@@ -71,17 +141,178 @@ export interface PipelineNodeConfig {
     // Output settings (excluded from content signature)
     outputConfig?: Record<string, any>;
     explicitDependencies?: string[];
+    /** What to do when a single item fails. Default: the pipeline's onError */
+    onError?: ErrorPolicy;
+    /**
+     * Worker priority: when more jobs wait than workers are idle, those of nodes with a higher
+     * priority start first. Default: the length of the longest chain of nodes depending on this one
+     */
+    priority?: number;
+    /** Maximum number of this node's jobs running on workers at the same time. Default: no limit */
+    maxConcurrency?: number;
+    /**
+     * Fail an item that takes longer than this many milliseconds. Work done on workers is timed from
+     * when a worker picks it up, and the stuck worker is replaced. Default: no limit
+     */
+    timeout?: number;
+    /** Retry failed items: a number of retries, or a policy with a backoff delay. Default: no retries */
+    retry?: number | RetryPolicy;
+}
+
+export interface RetryPolicy {
+    /** Retries after the first attempt failed */
+    attempts: number;
+    /** Delay before the first retry in milliseconds, doubled for every further retry. Default: 1000 */
+    delayMs?: number;
+}
+
+/**
+ * How failing items are handled by withCache.
+ * - 'fail': the first failing item fails the node and aborts the run
+ * - 'collect': failing items are recorded and skipped; the other items are cached and passed
+ *   downstream, and the run fails with a summary at the end
+ */
+export type ErrorPolicy = 'fail' | 'collect';
+
+
+/**
+ * Plan mode result for a single node.
+ */
+export interface NodePlan {
+    nodeName: string;
+    /**
+     * 'cached': evaluated item by item against the cache.
+     * 'uncached': does not use withCache and always runs.
+     * 'composite': only collects outputs of its internal nodes.
+     * 'error': could not be evaluated, e.g. because an upstream output doesn't exist yet.
+     */
+    mode: 'cached' | 'uncached' | 'composite' | 'error';
+    cached: number;
+    stale: number;
+    new: number;
+    /** Stale items with the reasons (changed, missing or upstream files) their cache entry is invalid */
+    invalidations: { item: string; reasons: string[] }[];
+    error?: string;
 }
 
+/**
+ * A path relative to `directory`, made relative to the working directory. Absolute paths are kept.
+ */
+function resolvePipelinePath(filePath: string, directory: string): string {
+    return path.isAbsolute(filePath) ? filePath : path.relative(process.cwd(), path.resolve(directory, filePath)) || '.';
+}
+
+/**
+ * Whether files matching a glob can lie in a directory: the glob's directory part before the first
+ * wildcard is inside the directory, or the directory is inside it and the rest of the glob can match there.
+ */
+function globOverlapsDir(pattern: string, dir: string): boolean {
+    const normalized = path.normalize(pattern);
+    const segments = normalized.split(path.sep);
+    const wildcard = segments.findIndex(segment => /[*?[\]{}!]/.test(segment));
+    const base = wildcard === -1 ? normalized : segments.slice(0, wildcard).join(path.sep) || '.';
+    const isWithin = (inner: string, outer: string) => {
+        const relative = path.relative(outer, inner);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+    };
+    return isWithin(base, dir) || (isWithin(dir, base) && minimatch(path.normalize(dir), normalized, {partial: true, dot: true}));
+}
 
 export abstract class PipelineNode<TConfig extends PipelineNodeConfig = PipelineNodeConfig, TOutput extends string = string> {
+    /**
+     * Whether run() can be called in plan mode. True for nodes that only write files through
+     * withCache, which evaluates the cache but skips performWork when planning.
+     */
+    readonly plannable: boolean = false;
+
+    /**
+     * Config key holding the items this node processes one by one. When it is a from() reference,
+     * the node reads it with context.streamInput and may start before the upstream node completes.
+     */
+    readonly itemInput?: string;
+
+    /**
+     * Whether run() returns exactly the per-item outputs of withCache, so that downstream nodes
+     * can consume each item as soon as it is done. Aggregating nodes leave this false and act as barriers.
+     */
+    readonly streamsItems: boolean = false;
+
+    /**
+     * Whether the node must run on its own, without other nodes running at the same time,
+     * e.g. because it changes the working directory that all relative paths resolve against.
+     */
+    readonly exclusive: boolean = false;
+
+    /**
+     * Whether performWork runs on the worker pool, which enforces the node's timeout per job.
+     * Other nodes' items are timed by withCache.
+     */
+    readonly runsOnWorkers: boolean = false;
+
+    /**
+     * Keys and types accepted in `config` and `outputConfig`, checked when the node is constructed.
+     * Nodes without a schema only have their common keys (name, explicitDependencies, onError, priority,
+     * maxConcurrency, timeout, retry) checked.
+     */
+    static readonly configSchema?: ConfigSchema;
+
+    /** Output keys the node produces, for checking from() references. Undefined if not known */
+    static readonly outputKeys?: readonly string[];
+
     constructor(public readonly config: TConfig) {
+        const nodeClass = this.constructor as typeof PipelineNode;
+        // ${name} references are checked once a pipeline has substituted them
+        validateNodeConfig(nodeClass.name, config, nodeClass.configSchema, {allowVariables: true});
     }
 
     get name() {
         return this.config.name;
     }
 
+    /**
+     * Output keys this node declares; from() references to other keys are reported by Pipeline.validate().
+     */
+    getOutputKeys(): readonly string[] | undefined {
+        return (this.constructor as typeof PipelineNode).outputKeys;
+    }
+
+    /**
+     * Globs and file paths this node reads, other than from() references. Pipeline infers a
+     * dependency on every node whose outputDir overlaps one of them. The default collects the
+     * config keys the schema declares as 'input' or 'fileRef'; nodes reading files configured
+     * in some other way add those.
+     */
+    getInputPaths(): string[] {
+        const paths: string[] = [];
+        const collect = (value: any) => {
+            if (typeof value === 'string') {
+                paths.push(value);
+            } else if (Array.isArray(value)) {
+                value.forEach(collect);
+            } else if (value && inputIsFilteredInput(value)) {
+                collect(value.input);
+            } else if (value?.type === 'file' && typeof value.path === 'string') {
+                paths.push(value.path);
+            }
+        };
+
+        const schema = (this.constructor as typeof PipelineNode).configSchema;
+        for (const [key, field] of Object.entries(schema?.config ?? {})) {
+            const types = [field.type].flat();
+            if (types.includes('input') || types.includes('fileRef')) {
+                collect(this.config.config[key]);
+            }
+        }
+        return paths;
+    }
+
+    /**
+     * Predict the output paths this node would write, without doing any work. Called by
+     * Pipeline.validate() with a context whose resolveInput returns the predicted outputs of
+     * upstream nodes. Nodes whose outputs can't be predicted don't implement it.
+     */
+    predictOutputs?(context: PipelineContext): Promise<Partial<NodeOutput<TOutput>>>;
+
     /**
      * Log a message with the node name prepended.
      */
@@ -89,12 +320,26 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
         context.log(`  [${this.name}] ${message}`);
     }
 
+    /**
+     * Emit a warning event attributed to this node.
+     */
+    protected warn(context: PipelineContext, message: string): void {
+        context.events.emit('warning', {message, node: this.name});
+    }
+
     /**
      * Optional lifecycle hook called when this node is added to a pipeline.
      * Composite nodes can use this to expand their internal nodes.
      */
     onAddedToPipeline?(pipeline: Pipeline): void;
 
+    /**
+     * Optional lifecycle hook called whenever the pipeline has resolved this node's config against its
+     * variables and directory. Nodes that can only expand once their config is known, e.g. SubPipelineNode,
+     * add their internal nodes here.
+     */
+    onConfigResolved?(pipeline: Pipeline): void;
+
     abstract run(context: PipelineContext): Promise<NodeOutput<TOutput>[]>;
 
     /**
@@ -213,6 +458,11 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
             return value.toString();
         }
 
+        // Regular expressions (filter() matches) - use source and flags
+        if (value instanceof RegExp) {
+            return value.toString();
+        }
+
         // Plain primitives
         if (typeof value !== 'object') {
             return JSON.stringify(value);
@@ -233,10 +483,7 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
 
     /**
      * Serialize a config key-value pair for inclusion in content signature.
-     * Throws if encountering unknown object types to ensure we handle all cases.
-     *
-     * TODO: Move config validation logic to a central location, not tied to signature generation.
-     * This would allow validating configs at node construction time rather than during execution.
+     * Config values are validated against the node's configSchema at construction time.
      */
     private serializeForSignature(key: string, value: any): string | null {
         if (value === null || value === undefined) {
@@ -265,14 +512,19 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
         return `${this.constructor.name}-${hash.substring(0, 8)}`;
     }
 
-    // Unified caching for single or multiple items
+    /**
+     * Unified caching for single or multiple items.
+     * Items may be an async iterable (see PipelineContext.streamInput): cache misses start
+     * processing as soon as they arrive, and every finished item is reported through
+     * context.itemCompleted so that downstream nodes can consume it before this node completes.
+     */
     protected async withCache<TOutput extends string>(
         context: PipelineContext,
-        items: string[],
+        items: string[] | AsyncIterable<string>,
         getCacheKey: (item: string) => string,
         getOutputDir: () => string,
         getOutputPath: (item: string, outputKey: TOutput, filename?: string) => string | undefined,
-        performWork: (item: string) => Promise<{
+        performWork: (item: string, signal: AbortSignal) => Promise<{
             outputs: Record<TOutput, string[]>;
             discoveredDependencies?: string[];
         }>
@@ -283,7 +535,11 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
         const configDependencyPaths: string[] = [];
         const upstreamNodes = new Map<string, NodeOutputReference>(); // Track upstream node references
 
+        // Streamed items are tracked one by one, so they don't make every item depend on all upstream outputs
+        const itemInput = this.itemInput ? this.config.config?.[this.itemInput] : undefined;
+
         const processConfigValue = async (value: any) => {
+            if (value === itemInput && typeof value === 'object') return;
             if (value?.type === 'file') {
                 // FileRef - extract path directly
                 configDependencyPaths.push(value.path);
@@ -323,9 +579,7 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
         }
 
 
-        const cacheKeys = items.map(getCacheKey);
         context.log(`Cache lookup - contentSignature: ${contentSignature}`);
-        // await context.cache.cleanExcept(contentSignature, cacheKeys);
 
         // Pre-compute hashes for shared dependencies (fileRefs) - these are the same for all items
         // Avoids hashing the same stylesheet 2360 times
@@ -345,29 +599,44 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
             }));
         }
 
-        // NOTE: Cache validation could be parallelized with Promise.all() for potential speedup
-        // on workloads with high cache hit rates (80%+) and slow I/O. However, testing showed
-        // that for typical workloads (low cache hit rate, fast SSD), the Promise coordination
-        // overhead outweighs benefits. Parallelizing the actual work (via worker threads) is
-        // more impactful than parallelizing cache validation.
+        // Aborted when the run is cancelled or, unless failures are collected, when an item fails.
+        // Queued worker jobs are dropped; items already being processed finish and are cached.
+        const workController = new AbortController();
+        const signal = context.signal ? AbortSignal.any([context.signal, workController.signal]) : workController.signal;
 
-        // Phase 1: Cache validation (sequential) - identify cache hits and misses
-        const results = [];
-        const cacheMisses: Array<{item: string, cacheKey: string, index: number}> = [];
+        const results: Array<{ item: string, outputs: NodeOutput<TOutput>, cached: boolean } | null> = [];
 
-        for (let i = 0; i < items.length; i++) {
-            const item = items[i];
-            const cacheKey = cacheKeys[i];
+        const {timeout} = this.config;
+        const retry = typeof this.config.retry === 'number' ? {attempts: this.config.retry} : this.config.retry;
 
-            const cached = await context.cache.getCache(contentSignature, cacheKey);
-            if (!cached) {
-                // context.log(`  - Cache miss for ${item}: no cache entry found (key: ${cacheKey.substring(0, 50)}...)`);
-                cacheMisses.push({item, cacheKey, index: i});
-                results[i] = null; // Placeholder
-                continue;
+        // One attempt at an item; work on workers is timed by the worker pool instead. Other work is
+        // aborted through its signal when it times out, and awaited so that a retry doesn't overlap it
+        const attemptWork = async (item: string): Promise<Awaited<ReturnType<typeof performWork>>> => {
+            if (timeout === undefined || this.runsOnWorkers) {
+                return performWork(item, signal);
             }
 
-            // Recalculate expected paths based on CURRENT config
+            const timeoutController = new AbortController();
+            const work = performWork(item, AbortSignal.any([signal, timeoutController.signal]));
+            const timedOut = Symbol('timed out');
+            let timer: NodeJS.Timeout | undefined;
+            try {
+                const result = await Promise.race([work, new Promise<typeof timedOut>(resolve => {
+                    timer = setTimeout(() => resolve(timedOut), timeout);
+                })]);
+                if (result !== timedOut) return result;
+            } finally {
+                clearTimeout(timer);
+            }
+
+            const error = Object.assign(new Error(`Timed out after ${(timeout / 1000).toFixed(1)}s`), {code: 'ETIMEDOUT'});
+            timeoutController.abort(error);
+            await work.catch(() => {});
+            throw error;
+        };
+
+        // Where the outputs of a cache entry go under the current config
+        const expectedOutputs = (item: string, cached: CacheEntry): Record<TOutput, string[]> => {
             const cachedBaseDir = cached.outputBaseDir;
             const newBaseDir = getOutputDir();
             const newOutputsByKey: Record<TOutput, string[]> = {} as Record<TOutput, string[]>;
@@ -398,65 +667,253 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
                     newOutputsByKey[outputKey as TOutput] = newPaths;
                 }
             }
+            return newOutputsByKey;
+        };
 
-            // Validate dependencies (regardless of where outputs currently are)
-            const dependenciesValid = await context.cache.isValid(cached, context);
+        // Copy files if needed (cross-node reuse)
+        const copyOutputs = async (cached: CacheEntry, newOutputsByKey: Record<TOutput, string[]>) => {
+            // TODO: Could optimize by checking if file already exists at expectedPath with same hash
+            for (const [outputKey, cachedPaths] of Object.entries(cached.outputsByKey)) {
+                const expectedPaths = newOutputsByKey[outputKey as TOutput];
+                for (let i = 0; i < cachedPaths.length; i++) {
+                    const cachedPath = cachedPaths[i];
+                    const expectedPath = expectedPaths[i];
+                    if (cachedPath !== expectedPath) {
+                        // Cross-node reuse - copy to expected location
+                        await context.cache.copyToExpectedPath(cachedPath, expectedPath);
+                    }
+                }
+            }
+        };
 
-            if (!dependenciesValid) {
-                // context.log(`  - Cache miss for ${item}: dependencies changed`);
-                cacheMisses.push({item, cacheKey, index: i});
-                results[i] = null; // Placeholder
-            } else {
-                // Copy files if needed (cross-node reuse)
-                // TODO: Could optimize by checking if file already exists at expectedPath with same hash
-                for (const [outputKey, cachedPaths] of Object.entries(cached.outputsByKey)) {
-                    const expectedPaths = newOutputsByKey[outputKey as TOutput];
-                    for (let i = 0; i < cachedPaths.length; i++) {
-                        const cachedPath = cachedPaths[i];
-                        const expectedPath = expectedPaths[i];
-                        if (cachedPath !== expectedPath) {
-                            // Cross-node reuse - copy to expected location
-                            await context.cache.copyToExpectedPath(cachedPath, expectedPath);
+        // Pass a finished item through the plugins' afterItem hooks and record where its outputs came from;
+        // a rejected item fails like one whose work failed
+        const completeItem = async (
+            item: string,
+            index: number,
+            outputs: NodeOutput<TOutput>,
+            cached: boolean,
+            itemStart: number,
+            trackedFiles: Record<string, { source: 'item' | 'fileRef' | 'discovered' | 'explicit' }>
+        ) => {
+            if (context.afterItem) {
+                try {
+                    outputs = await context.afterItem(item, outputs) as NodeOutput<TOutput>;
+                } catch (err: any) {
+                    if (signal.aborted || context.onError !== 'collect') {
+                        workController.abort(err);
+                        throw err;
+                    }
+                    context.events.emit('item:failed', {
+                        node: this.name, item, error: err, durationMs: performance.now() - itemStart, attempts: 1
+                    });
+                    results[index] = null;
+                    return;
+                }
+            }
+            const inputs: PipelineEventMap['item:provenance']['inputs'] = {};
+            for (const [filePath, {source}] of Object.entries(trackedFiles)) {
+                if (source !== 'item') inputs[filePath] = source;
+            }
+            context.events.emit('item:provenance', {node: this.name, item, outputs, contentSignature, inputs});
+            results[index] = {item, outputs, cached};
+            context.itemCompleted?.(outputs);
+        };
+
+        // Phase 2: Work execution - a cache miss starts processing as soon as it is found,
+        // and its cache entry is stored as soon as it is done
+        const processItem = async (item: string, cacheKey: string, index: number, reason: 'new' | 'stale') => {
+            const itemStart = performance.now();
+
+            // Another node with the same signature may be building the item right now, e.g. a stylesheet
+            // shared by two projects of a workspace; its entry is reused once stored
+            const pending = context.cache.getPendingCache(contentSignature, cacheKey);
+            const reused = pending && await pending;
+            if (reused) {
+                const outputs = expectedOutputs(item, reused);
+                await copyOutputs(reused, outputs);
+                context.events.emit('item:cache-hit', {node: this.name, item});
+                context.trackFiles?.(Object.keys(reused.trackedFiles));
+                await completeItem(item, index, outputs, true, itemStart, reused.trackedFiles);
+                return;
+            }
+
+            context.events.emit('item:cache-miss', {node: this.name, item, reason});
+            const settle = context.cache.beginCache(contentSignature, cacheKey);
+            let stored: CacheEntry | null = null;
+            try {
+                stored = await buildItem(item, cacheKey, index, itemStart);
+            } finally {
+                settle(stored);
+            }
+        };
+
+        // Runs the work for an item and stores its cache entry; null if the item failed and failures are collected
+        const buildItem = async (item: string, cacheKey: string, index: number, itemStart: number): Promise<CacheEntry | null> => {
+            let processed!: Awaited<ReturnType<typeof performWork>>;
+            for (let attempt = 1; !processed; attempt++) {
+                try {
+                    signal.throwIfAborted();
+                    processed = await attemptWork(item);
+                } catch (err: any) {
+                    if (!signal.aborted && attempt <= (retry?.attempts ?? 0)) {
+                        const delayMs = (retry?.delayMs ?? 1000) * 2 ** (attempt - 1);
+                        context.events.emit('item:retry', {node: this.name, item, attempt, delayMs, error: err});
+                        await delay(delayMs, undefined, {signal}).catch(() => {});
+                        continue;
+                    }
+
+                    if (signal.aborted || context.onError !== 'collect') {
+                        // Only the node's failure gets reported, so name the item that timed out
+                        const error = err.code === 'ETIMEDOUT' ? new Error(`${item}: ${err.message}`) : err;
+                        workController.abort(error);
+                        throw error;
+                    }
+                    context.events.emit('item:failed', {
+                        node: this.name, item, error: err, durationMs: performance.now() - itemStart, attempts: attempt
+                    });
+                    itemsFailed = true;
+                    return null;
+                }
+            }
+            context.events.emit('item:processed', {node: this.name, item, durationMs: performance.now() - itemStart});
+
+            // Build unified cache entry (using pre-computed shared hashes)
+            const cacheEntry = await context.cache.buildCacheEntry(
+                [item],                    // Item files
+                processed.outputs,         // Output files by key
+                getOutputDir(),            // Output base directory
+                cacheKey,                  // Cache key
+                processed.discoveredDependencies,    // Discovered dependencies
+                configDependencyPaths,     // Config dependencies (FileRefs + resolved from() references)
+                upstreamOutputSignatures,  // Upstream node output signatures
+                sharedFileHashes           // Pre-computed hashes for shared dependencies
+            );
+            context.trackFiles?.(Object.keys(cacheEntry.trackedFiles));
+
+            // Phase 3: Cache storage
+            await context.cache.setCache(contentSignature, cacheKey, cacheEntry);
+            await completeItem(item, index, processed.outputs, false, itemStart, cacheEntry.trackedFiles);
+            return cacheEntry;
+        };
+
+        // NOTE: Cache validation could be parallelized with Promise.all() for potential speedup
+        // on workloads with high cache hit rates (80%+) and slow I/O. However, testing showed
+        // that for typical workloads (low cache hit rate, fast SSD), the Promise coordination
+        // overhead outweighs benefits. Parallelizing the actual work (via worker threads) is
+        // more impactful than parallelizing cache validation.
+
+        // Phase 1: Cache validation (sequential) - identify cache hits and misses
+        const cacheMisses: Array<{item: string, cacheKey: string, index: number}> = [];
+        const workPromises: Promise<void>[] = [];
+        // Set when an item fails and failures are collected (onError: 'collect')
+        let itemsFailed = false;
+        const outputKeys: string[] = []; // Output keys seen in cache entries (plan mode)
+
+        const markMiss = (item: string, cacheKey: string, index: number, reason: 'new' | 'stale') => {
+            cacheMisses.push({item, cacheKey, index});
+            results[index] = null; // Placeholder
+            if (!context.plan) {
+                const work = processItem(item, cacheKey, index, reason);
+                // A failure aborts `signal`, which stops the loop below; the error is rethrown from there
+                work.catch(() => {});
+                workPromises.push(work);
+            }
+        };
+
+        const cacheKeys: string[] = [];
+        let index = 0;
+        try {
+            for await (const item of items) {
+                signal.throwIfAborted();
+                const i = index++;
+                const cacheKey = getCacheKey(item);
+                cacheKeys.push(cacheKey);
+
+                const cached = await context.cache.getCache(contentSignature, cacheKey);
+                if (!cached) {
+                    // context.log(`  - Cache miss for ${item}: no cache entry found (key: ${cacheKey.substring(0, 50)}...)`);
+                    markMiss(item, cacheKey, i, 'new');
+                    continue;
+                }
+
+                // Recalculate expected paths based on CURRENT config
+                const newOutputsByKey = expectedOutputs(item, cached);
+
+                // Validate dependencies (regardless of where outputs currently are)
+                let dependenciesValid: boolean;
+                if (context.plan) {
+                    // Plan mode: collect all reasons, including upstream outputs that are about to be regenerated
+                    const reasons = await context.cache.explainInvalid(cached, context);
+                    for (const filePath of Object.keys(cached.trackedFiles)) {
+                        if (context.plan.pendingOutputs.has(filePath)) {
+                            reasons.push(`upstream pending: ${filePath}`);
                         }
                     }
+                    dependenciesValid = reasons.length === 0;
+                    if (!dependenciesValid) {
+                        context.plan.node.invalidations.push({item, reasons});
+                    }
+                    outputKeys.push(...Object.keys(cached.outputsByKey));
+                } else {
+                    dependenciesValid = await context.cache.isValid(cached, context);
                 }
 
-                context.log(`  - Skipping: ${item} (cached)`);
-                results[i] = {item, outputs: newOutputsByKey, cached: true};
+                if (!dependenciesValid) {
+                    // context.log(`  - Cache miss for ${item}: dependencies changed`);
+                    markMiss(item, cacheKey, i, 'stale');
+                } else if (context.plan) {
+                    context.plan.node.cached++;
+                    results[i] = {item, outputs: newOutputsByKey, cached: true};
+                } else {
+                    await copyOutputs(cached, newOutputsByKey);
+
+                    context.events.emit('item:cache-hit', {node: this.name, item});
+                    context.trackFiles?.(Object.keys(cached.trackedFiles));
+                    await completeItem(item, i, newOutputsByKey, true, performance.now(), cached.trackedFiles);
+                }
             }
+        } catch (err) {
+            // Let items already being processed wind down before failing
+            workController.abort(err);
+            await Promise.allSettled(workPromises);
+            throw err;
         }
 
-        // Phase 2: Work execution (parallel) - process all cache misses concurrently
-        if (cacheMisses.length > 0) {
-            context.log(`Processing ${cacheMisses.length} cache misses`);
-            const workPromises = cacheMisses.map(async ({item, cacheKey, index}) => {
-                const processed = await performWork(item);
-
-                // Build unified cache entry (using pre-computed shared hashes)
-                const cacheEntry = await context.cache.buildCacheEntry(
-                    [item],                    // Item files
-                    processed.outputs,         // Output files by key
-                    getOutputDir(),            // Output base directory
-                    cacheKey,                  // Cache key
-                    processed.discoveredDependencies,    // Discovered dependencies
-                    configDependencyPaths,     // Config dependencies (FileRefs + resolved from() references)
-                    upstreamOutputSignatures,  // Upstream node output signatures
-                    sharedFileHashes           // Pre-computed hashes for shared dependencies
-                );
+        // Plan mode: stop before doing any work, predicting outputs of misses where possible
+        if (context.plan) {
+            const plan = context.plan;
+            plan.node.new += cacheMisses.length - plan.node.invalidations.length;
+            plan.node.stale += plan.node.invalidations.length;
+
+            const knownKeys = new Set(outputKeys);
+            for (const {item, index} of cacheMisses) {
+                const outputs = {} as Record<TOutput, string[]>;
+                for (const outputKey of knownKeys) {
+                    const predictedPath = getOutputPath(item, outputKey as TOutput);
+                    if (predictedPath !== undefined) {
+                        outputs[outputKey as TOutput] = [predictedPath];
+                        plan.pendingOutputs.add(predictedPath);
+                    }
+                }
+                results[index] = {item, outputs, cached: false};
+            }
+            return results.filter(r => r !== null);
+        }
 
-                return {index, item, processed, cacheEntry, cacheKey};
-            });
+        if (workPromises.length > 0) {
+            context.log(`Awaiting completion of ${workPromises.length} cache misses`);
+            await Promise.allSettled(workPromises);
+            context.log(`Work completed`);
 
-            context.log(`Awaiting completion of ${workPromises.length} work items`);
-            const processedItems = await Promise.all(workPromises);
-            context.log(`Work completed, storing ${processedItems.length} cache entries`);
+            // The first error (or the cancellation) is the reason the work was aborted
+            signal.throwIfAborted();
+        }
 
-            // Phase 3: Cache storage (parallel) - save cache entries
-            await Promise.all(processedItems.map(async ({index, item, processed, cacheEntry, cacheKey}) => {
-                await context.cache.setCache(contentSignature, cacheKey, cacheEntry);
-                results[index] = {item, outputs: processed.outputs, cached: false};
-            }));
-            context.log(`Cache storage complete`);
+        // Entries of items that no longer exist (e.g. deleted source documents) would never be hit again.
+        // Only pruned once every item is done, so that a failed or cancelled run keeps them
+        if (!itemsFailed) {
+            await context.cache.pruneItemEntries(this.name, contentSignature, cacheKeys);
         }
 
         return results.filter(r => r !== null);
@@ -466,42 +923,325 @@ export abstract class PipelineNode<TConfig extends PipelineNodeConfig = Pipeline
 export interface PipelineContext {
     resolveInput(input: Input): Promise<string[]>;
 
+    /**
+     * Like resolveInput, but yields the outputs of an upstream node that is still running
+     * as soon as each of its items is done. Other inputs are resolved up front.
+     */
+    streamInput(input: Input): AsyncIterable<string>;
+
+    /** Called by withCache for every item that is done, cached or processed */
+    itemCompleted?(outputs: NodeOutput<any>): void;
+
+    /**
+     * Called by withCache for every item that is done, before itemCompleted, to pass its outputs
+     * through the afterItem hooks of plugins (see PipelinePlugin). Throws when a plugin rejects the item.
+     */
+    afterItem?(item: string, outputs: NodeOutput<any>): Promise<NodeOutput<any>>;
+
     log(message: string): void;
 
+    /** Pipeline events, for nodes that report item-level progress or warnings */
+    events: PipelineEvents;
+
+    /** Error policy of the running node; with 'collect', withCache skips failing items */
+    onError?: ErrorPolicy;
+
+    /** Aborted when the run is cancelled or another node failed. Nodes should stop starting new work */
+    signal?: AbortSignal;
+
     cache: CacheManager;
     buildDir: string;
+    /**
+     * Directory the running node's relative paths resolve against, e.g. that of its pipeline file.
+     * Paths in its config are already resolved, so nodes only need it to run tools that work relative to it
+     */
+    directory: string;
     workerPool: WorkerPool;
 
+    /** Scheduling options of the running node's worker jobs, to pass to workerPool.execute */
+    jobOptions?: JobOptions;
+
     getBuildPath(nodeName: string, inputPath: string, newExtension?: string): string;
     stripBuildPrefix(inputPath: string): string;
     getNodeOutputs(nodeName: string): NodeOutput<any>[] | undefined;
+
+    /**
+     * Record files the running node depends on beyond its resolved inputs (e.g. discovered
+     * stylesheet imports), so watch mode can map changes back to the node.
+     */
+    trackFiles?(filePaths: string[]): void;
+
+    /**
+     * Set in plan mode: withCache records cache hits and misses into `node` instead of doing work.
+     * `pendingOutputs` collects outputs upstream nodes would regenerate.
+     */
+    plan?: {
+        node: NodePlan;
+        pendingOutputs: Set<string>;
+    };
+}
+
+export type ExecutionMode = 'sequential' | 'parallel' | 'dynamic';
+
+/**
+ * A problem found by Pipeline.validate().
+ * - 'undeclared-output': a from() reference names an output key the referenced node doesn't declare
+ * - 'empty-glob': an input glob matches no files
+ * - 'output-collision': two nodes, or two items of one node, write the same file
+ * - 'unconsumed-output': no node depends on the node and its outputs stay in the build directory
+ * - 'redundant-dependency': an explicit dependency is already implied by from() references or inferred dependencies
+ * - 'plugin': reported by the validate hook of a plugin
+ */
+export interface ValidationIssue {
+    check: 'undeclared-output' | 'empty-glob' | 'output-collision' | 'unconsumed-output' | 'redundant-dependency' | 'plugin';
+    severity: 'error' | 'warning';
+    node: string;
+    message: string;
+}
+
+/**
+ * Settings that can be overridden after a pipeline has been constructed,
+ * e.g. by the `efes` command-line runner.
+ */
+export interface PipelineOptions {
+    buildDir?: string;
+    cacheDir?: string;
+    executionMode?: ExecutionMode;
+    workerCount?: number;
+    /** Print progress to the console (default: true). Events are emitted either way */
+    consoleOutput?: boolean;
+    /** Also render the build report as HTML (default: false) */
+    htmlReport?: boolean;
+    /** Error policy for nodes that don't set their own (default: 'fail') */
+    onError?: ErrorPolicy;
+    /**
+     * Directory the pipeline's relative paths resolve against instead of the working directory, e.g. that of
+     * its pipeline file: the paths in node configs, and the build and cache directories set so far
+     */
+    directory?: string;
+    /** Values for ${name} references in node configs, merged into the ones already set */
+    variables?: Record<string, unknown>;
+    /** Named sets of variables overriding the defaults, merged into the ones already set */
+    profiles?: Record<string, Record<string, unknown>>;
+    /** Profile whose variables are used */
+    profile?: string;
+}
+
+/**
+ * Where the paths and variables of nodes taken over from another pipeline resolve (see Pipeline.embed):
+ * against that pipeline's directory, variables and profiles.
+ */
+export interface NodeScope {
+    directory: string;
+    variables: Record<string, unknown>;
+    profiles: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * How a dependency edge between two nodes came about.
+ * - 'from-reference': the dependent node's config contains a from() reference
+ * - 'explicit': listed in explicitDependencies (or propagated from a composite to its internal nodes)
+ * - 'composite-internal': a composite node depends on the internal nodes it expanded into
+ * - 'inferred': the dependent node reads files below the outputDir of the dependency (see PipelineNode.getInputPaths)
+ */
+export type DependencyType = 'from-reference' | 'explicit' | 'composite-internal' | 'inferred';
+
+/**
+ * Fully expanded pipeline graph, as exported by Pipeline.getGraph().
+ * Edges point from the dependency (upstream) to the dependent node.
+ */
+export interface PipelineGraph {
+    name: string;
+    nodes: {
+        name: string;
+        type: string;
+        /** Name of the composite node this node was expanded from */
+        parent?: string;
+        /** Output keys consumed by other nodes or mapped by a composite */
+        outputs: string[];
+    }[];
+    edges: {
+        from: string;
+        to: string;
+        type: DependencyType;
+        /** For from-reference edges: the referenced output key */
+        output?: string;
+        glob?: string;
+        /** For inferred edges: the outputDir the dependent node reads from */
+        outputDir?: string;
+    }[];
+}
+
+/**
+ * Options for a single Pipeline.run().
+ */
+export interface RunOptions {
+    /** Only run these nodes and their transitive dependencies. Default: all nodes */
+    targets?: string[];
+    /**
+     * Start at these nodes: everything they (transitively) depend on is treated as satisfied,
+     * using the outputs recorded in the cache by a previous run instead of running it.
+     */
+    from?: string[];
+    /** Cancel the run: queued work is dropped and running nodes finish their current items */
+    signal?: AbortSignal;
+    /** Run on this worker pool, e.g. one shared with other pipelines, instead of starting one. It is left running */
+    workerPool?: WorkerPool;
+    /**
+     * Check the nodes to run with validate() first and refuse to start on errors. Default: true.
+     * Validation globs every input, which takes a while for large projects that were just validated.
+     */
+    validate?: boolean;
+}
+
+/**
+ * Handle returned by Pipeline.watch() to stop watching and shut down the worker pool.
+ */
+export interface PipelineWatcher {
+    close(): Promise<void>;
 }
 
 export class Pipeline {
     private graph = new DepGraph<PipelineNode>();
     private nodeOutputs = new Map<string, NodeOutput<any>[]>;
     private nodeTimings = new Map<string, number>();
+    // Source files and glob patterns each node read during its last run (for watch mode)
+    private nodeWatchedFiles = new Map<string, Set<string>>();
+    private nodeWatchedGlobs = new Map<string, Set<string>>();
     private cache: CacheManager;
-    private workerPool: WorkerPool;
+    private workerPool!: WorkerPool;
+    private dependenciesResolved = false;
+    private variablesApplied = false;
+    // Node configs as written, before variables were substituted
+    private writtenConfigs = new Map<PipelineNode, Pick<PipelineNodeConfig, 'config' | 'outputConfig'>>();
+    // Edge metadata for graph export, keyed by `${dependent}->${dependency}`
+    private dependencyEdges = new Map<string, PipelineGraph['edges']>();
+    private detachConsoleReporter?: () => void;
+    // Per-item outputs of the item-streaming nodes running in the current pass
+    private itemStreams = new Map<string, ItemStream<NodeOutput<any>>>();
+    private plugins: PipelinePlugin[] = [];
+    // Nodes taken over from other pipelines, by the scope they resolve in
+    private nodeScopes = new Map<PipelineNode, NodeScope>();
+
+    /** Run, node, cache and worker events; see PipelineEventMap */
+    readonly events = new PipelineEvents();
+
+    /** Write build-report.html next to build-report.json in the build directory */
+    htmlReport = false;
+
+    /** Error policy for nodes that don't set their own */
+    onError: ErrorPolicy = 'fail';
+
+    /** Default values for ${name} references in node configs */
+    variables: Record<string, unknown> = {};
+
+    /** Named sets of variables overriding the defaults, selected with `profile` */
+    profiles: Record<string, Record<string, unknown>> = {};
+
+    profile?: string;
+
+    /** See PipelineOptions.directory. Default: the working directory */
+    directory?: string;
 
     constructor(
         public readonly name: string,
-        public readonly buildDir: string = '.efes-build',
-        public readonly cacheDir: string = '.efes-cache',
-        public readonly executionMode: 'sequential' | 'parallel' | 'dynamic' = 'sequential'
+        public buildDir: string = '.efes-build',
+        public cacheDir: string = '.efes-cache',
+        public executionMode: ExecutionMode = 'sequential',
+        public workerCount: number = os.availableParallelism()
     ) {
         this.cache = new CacheManager(cacheDir);
+        this.detachConsoleReporter = new ConsoleReporter(name).attach(this.events);
+    }
+
+    /**
+     * Override build settings before running. Only the given options are changed.
+     */
+    configure(options: PipelineOptions): this {
+        if (options.directory !== undefined) {
+            // Relative build and cache directories were resolved against the previous directory
+            const previousDirectory = this.directory ?? process.cwd();
+            const rebase = (dir: string) => path.isAbsolute(dir) ? dir :
+                resolvePipelinePath(path.relative(previousDirectory, path.resolve(dir)), options.directory!);
+            this.directory = options.directory;
+            this.buildDir = rebase(this.buildDir);
+            this.cacheDir = rebase(this.cacheDir);
+            this.cache = new CacheManager(this.cacheDir);
+            this.variablesApplied = false;
+            this.dependenciesResolved = false;
+        }
+        if (options.buildDir !== undefined) this.buildDir = options.buildDir;
+        if (options.cacheDir !== undefined) {
+            this.cacheDir = options.cacheDir;
+            this.cache = new CacheManager(this.cacheDir);
+        }
+        if (options.executionMode !== undefined) this.executionMode = options.executionMode;
+        if (options.workerCount !== undefined) this.workerCount = options.workerCount;
+        if (options.htmlReport !== undefined) this.htmlReport = options.htmlReport;
+        if (options.onError !== undefined) this.onError = options.onError;
+        if (options.variables !== undefined || options.profiles !== undefined || options.profile !== undefined) {
+            this.variables = {...this.variables, ...options.variables};
+            this.profiles = {...this.profiles, ...options.profiles};
+            this.profile = options.profile ?? this.profile;
+            this.variablesApplied = false;
+            this.dependenciesResolved = false;
+        }
+        if (options.consoleOutput === false) {
+            this.detachConsoleReporter?.();
+            this.detachConsoleReporter = undefined;
+        } else if (options.consoleOutput === true && !this.detachConsoleReporter) {
+            this.detachConsoleReporter = new ConsoleReporter(this.name).attach(this.events);
+        }
+        return this;
+    }
 
-        // Create shared worker pool with generic worker
+    /**
+     * Create the shared worker pool with the generic worker.
+     * Created per run so that inspecting a pipeline (graph, status) does not spawn workers.
+     */
+    private createWorkerPool(): WorkerPool {
         const currentDir = path.dirname(fileURLToPath(import.meta.url));
         const devPath = path.resolve(currentDir, '../xml/genericWorker.ts');
         const prodPath = path.resolve(currentDir, 'genericWorker.js');
         const workerPath = fsSync.existsSync(prodPath) ? prodPath : devPath;
 
-        this.workerPool = new WorkerPool(8, workerPath);
+        return new WorkerPool(this.workerCount, workerPath, this.createWorkerPoolListener());
+    }
+
+    /**
+     * Report the jobs of a worker pool as worker events of this pipeline. On a pool shared with
+     * embedded pipelines, their jobs are left out; they are reported by the embedded pipelines.
+     */
+    private createWorkerPoolListener(): WorkerPoolListener {
+        const describeJob = (job: any) => ({
+            node: job.nodeName,
+            file: job.xsltPath ?? job.sourcePath
+        });
+        const isOwn = (options: JobOptions) => options.owner === undefined || options.owner === this;
+
+        return {
+            jobStarted: (workerId, job, options) => {
+                if (isOwn(options)) this.events.emit('worker:job-start', {workerId, ...describeJob(job)});
+            },
+            jobFinished: (workerId, job, options, durationMs, error) => {
+                if (isOwn(options)) this.events.emit('worker:job-end', {workerId, ...describeJob(job), success: !error, durationMs, error});
+            }
+        };
+    }
+
+    /**
+     * Register a plugin whose hooks run at the start and end of every run, around every node
+     * and after every item. See PipelinePlugin.
+     */
+    use(...plugins: PipelinePlugin[]): this {
+        this.plugins.push(...plugins);
+        return this;
     }
 
     addNode(...nodes: PipelineNode<any, any>[]): this {
+        this.dependenciesResolved = false;
+        this.variablesApplied = false;
+
         for (const node of nodes) {
             this.graph.addNode(node.name, node);
 
@@ -514,16 +1254,78 @@ export class Pipeline {
         return this;
     }
 
-    // TODO probably useless
-    addExplicitDependency(fromNodeName: string, toNodeName: string): this {
-        // Validate that both nodes exist
-        if (!this.graph.hasNode(fromNodeName)) {
-            throw new Error(`Node "${fromNodeName}" not found in pipeline`);
-        }
-        if (!this.graph.hasNode(toNodeName)) {
-            throw new Error(`Node "${toNodeName}" not found in pipeline`);
-        }
-
+    /**
+     * Take over the nodes of another pipeline, e.g. a project embedded in a workspace (see SubPipelineNode).
+     * They are renamed to `prefix:name` and keep resolving their paths against the other pipeline's
+     * directory, and their variables against its variables and profiles. Returns the nodes that are
+     * not internal to one of its composite nodes, to be added to this pipeline.
+     */
+    embed(pipeline: Pipeline, prefix: string): PipelineNode<any, any>[] {
+        const nodes = pipeline.graph.overallOrder().map(name => pipeline.graph.getNodeData(name));
+        const internalNodes = new Set(nodes.flatMap(node => isCompositeNode(node) ? node.getInternalNodes() : []));
+        const names = new Map(nodes.map(node => [node.name, `${prefix}:${node.name}`]));
+        const scope: NodeScope = {
+            directory: pipeline.directory ?? process.cwd(),
+            variables: pipeline.variables,
+            profiles: pipeline.profiles
+        };
+
+        for (const node of nodes) {
+            // Configs as written, in case the other pipeline has resolved them already
+            Object.assign(node.config, pipeline.writtenConfigs.get(node));
+            node.config.name = names.get(node.name)!;
+            node.config.explicitDependencies = node.config.explicitDependencies?.map(name => names.get(name) ?? name);
+            if (isCompositeNode(node)) {
+                node.renameInternalNodes(names);
+            }
+            if (pipeline.onError !== 'fail') {
+                node.config.onError ??= pipeline.onError;
+            }
+            this.nodeScopes.set(node, pipeline.nodeScopes.get(node) ?? scope);
+        }
+
+        return nodes.filter(node => !internalNodes.has(node));
+    }
+
+    /**
+     * Add a dependency edge to the graph and record how it came about for graph export.
+     * Used by composite nodes to depend on their internal nodes.
+     */
+    addDependency(
+        dependentName: string,
+        dependencyName: string,
+        type: DependencyType,
+        reference?: { output?: string, glob?: string, outputDir?: string }
+    ): void {
+        this.graph.addDependency(dependentName, dependencyName);
+
+        const key = `${dependentName}->${dependencyName}`;
+        const edges = this.dependencyEdges.get(key) ?? [];
+        const isDuplicate = edges.some(e => e.type === type && e.output === reference?.output &&
+            e.glob === reference?.glob && e.outputDir === reference?.outputDir);
+        if (!isDuplicate) {
+            edges.push({
+                from: dependencyName,
+                to: dependentName,
+                type,
+                ...(reference?.output && {output: reference.output}),
+                ...(reference?.glob && {glob: reference.glob}),
+                ...(reference?.outputDir && {outputDir: reference.outputDir})
+            });
+            this.dependencyEdges.set(key, edges);
+        }
+    }
+
+    // TODO probably useless
+    addExplicitDependency(fromNodeName: string, toNodeName: string): this {
+        // Validate that both nodes exist
+        if (!this.graph.hasNode(fromNodeName)) {
+            throw new Error(`Node "${fromNodeName}" not found in pipeline`);
+        }
+        if (!this.graph.hasNode(toNodeName)) {
+            throw new Error(`Node "${toNodeName}" not found in pipeline`);
+        }
+
         // Add to the node's explicit dependencies config
         const node = this.graph.getNodeData(fromNodeName);
         if (!node.config.explicitDependencies) {
@@ -549,8 +1351,8 @@ export class Pipeline {
                         if (!this.graph.hasNode(depNodeName)) {
                             throw new Error(`Explicit dependency "${depNodeName}" not found in pipeline`);
                         }
-                        console.log(`Adding explicit dependency for node ${node.name}: ${depNodeName}`);
-                        this.graph.addDependency(node.name, depNodeName);
+                        this.events.emit('log', {message: `Adding explicit dependency for node ${node.name}: ${depNodeName}`});
+                        this.addDependency(node.name, depNodeName, 'explicit');
                     } catch (err: any) {
                         throw new Error(`Failed to add explicit dependency for node ${node.name}: ${err.message}`);
                     }
@@ -568,7 +1370,8 @@ export class Pipeline {
             if (node.items && inputIsNodeOutputReference(node.items)) {
                 try {
                     // console.log(`Adding automatic dependency for node ${node.name}: ${node.items.node.name} (from items)`);
-                    this.graph.addDependency(node.name, node.items.node.name);
+                    const items = node.items;
+                    this.addDependency(node.name, items.node.name, 'from-reference', {output: items.name, glob: items.glob});
                 } catch (err: any) {
                     throw new Error(`Failed to add automatic dependency for node ${node.name}: ${err.message}`);
                 }
@@ -580,7 +1383,7 @@ export class Pipeline {
                     if (inputIsNodeOutputReference(obj)) {
                         try {
                             // console.log(`Adding automatic dependency for node ${node.name}: ${obj.node.name} (from ${path})`);
-                            this.graph.addDependency(node.name, obj.node.name);
+                            this.addDependency(node.name, obj.node.name, 'from-reference', {output: obj.name, glob: obj.glob});
                         } catch (err: any) {
                             throw new Error(`Failed to add automatic dependency for node ${node.name}: ${err.message}`);
                         }
@@ -597,10 +1400,72 @@ export class Pipeline {
         }
     }
 
-    async run() {
-        const pipelineStart = performance.now();
-        console.log(`Running pipeline ${this.name}`);
-        console.log(`Number of nodes: ${this.graph.size()}`);
+    /**
+     * Make nodes depend on the nodes writing into the directories they read (PipelineNode.getInputPaths),
+     * e.g. a site generator on the nodes filling its source directory. Edges that would close a cycle,
+     * because the writer already depends on the reader, are left out.
+     */
+    private setupInferredDependencies() {
+        const writers: { node: PipelineNode, outputDir: string }[] = [];
+        for (const nodeName of this.graph.overallOrder()) {
+            const node = this.graph.getNodeData(nodeName);
+            const outputDir = node.config.outputConfig?.outputDir;
+            if (typeof outputDir === 'string') {
+                writers.push({node, outputDir: path.normalize(outputDir).replace(/\/$/, '')});
+            }
+        }
+        if (writers.length === 0) return;
+
+        for (const nodeName of this.graph.overallOrder()) {
+            const node = this.graph.getNodeData(nodeName);
+            const internalNodes = new Set<string>(isCompositeNode(node)
+                ? node.getInternalNodes().map(internalNode => internalNode.name)
+                : []);
+
+            for (const inputPath of node.getInputPaths()) {
+                for (const writer of writers) {
+                    if (writer.node === node || internalNodes.has(writer.node.name)) continue;
+                    if (!globOverlapsDir(inputPath, writer.outputDir)) continue;
+                    if (this.graph.dependenciesOf(writer.node.name).includes(node.name)) continue;
+                    this.addDependency(node.name, writer.node.name, 'inferred', {outputDir: writer.outputDir});
+                }
+            }
+        }
+    }
+
+    /**
+     * Remove the edges of the given types, e.g. those derived from configs before variables were substituted anew.
+     * A dependency stays in the graph as long as it has edges of other types.
+     */
+    private removeDependencyEdges(types: DependencyType[]) {
+        for (const [key, edges] of this.dependencyEdges) {
+            const remaining = edges.filter(edge => !types.includes(edge.type));
+            if (remaining.length === edges.length) continue;
+            if (remaining.length > 0) {
+                this.dependencyEdges.set(key, remaining);
+            } else {
+                this.dependencyEdges.delete(key);
+                this.graph.removeDependency(edges[0].to, edges[0].from);
+            }
+        }
+    }
+
+    /**
+     * Wire up explicit, automatic and inferred dependencies. Safe to call more than once: edges
+     * derived from configs are replaced, since the configs may have changed with the variables.
+     */
+    private resolveDependencies() {
+        if (!this.variablesApplied) this.applyVariables();
+        if (this.dependenciesResolved) return;
+
+        this.removeDependencyEdges(['from-reference', 'inferred']);
+
+        // Composite nodes expanded when they were added, before the pipeline was configured
+        for (const node of this.graph.overallOrder().map(name => this.graph.getNodeData(name))) {
+            if (isCompositeNode(node)) {
+                this.events.emit('log', {message: `Expanded composite node ${node.name} into ${node.getInternalNodes().length} node(s)`});
+            }
+        }
 
         // Setup explicit dependencies
         this.setupExplicitDependencies();
@@ -608,142 +1473,1057 @@ export class Pipeline {
         // Setup automatic dependencies from NodeOutputReferences
         this.setupAutomaticDependencies();
 
-        // Track currently running nodes for supervisor
-        const runningNodes = new Set<string>();
+        // Setup dependencies on the nodes writing the files a node reads
+        this.setupInferredDependencies();
 
-        const executionOrder = this.graph.overallOrder();
+        this.dependenciesResolved = true;
+    }
 
-        // Start supervisor that logs running nodes every 5 seconds
-        const supervisorInterval = setInterval(() => {
-            if (runningNodes.size > 0) {
-                const activeWorkers = this.workerPool.getActiveWorkers();
-                console.log(`\n[Supervisor] Currently running ${runningNodes.size} node(s), ${activeWorkers.size} worker(s) busy:`);
-                for (const nodeName of runningNodes) {
-                    console.log(`  ⏳ ${nodeName}`);
-                }
-                if (activeWorkers.size > 0) {
-                    console.log(`  Workers:`);
-                    for (const [workerId, job] of activeWorkers.entries()) {
-                        // Extract node name and file being processed
-                        const nodeName = job.nodeName || 'unknown';
-                        const fileName = job.xsltPath ? path.basename(job.xsltPath) :
-                                        job.sourcePath ? path.basename(job.sourcePath) :
-                                        'unknown';
-                        console.log(`    Worker ${workerId}: [${nodeName}] ${fileName}`);
+    /**
+     * Substitute the variables of the active profile into the config and outputConfig of every node,
+     * and resolve their relative paths against the pipeline's directory (see resolveConfigPaths).
+     * Always starts from the configs as written, so that changing the profile resolves them anew.
+     * Runs before anything reads the configs, so the resolved values are part of content signatures.
+     * The resolved configs are checked against the node schemas, which let references through at construction.
+     * Nodes taken over from another pipeline (see embed) resolve against that pipeline's variables and directory.
+     */
+    private applyVariables() {
+        const scopeVariables = new Map<NodeScope | undefined, Record<string, unknown>>();
+        const variablesOf = (scope?: NodeScope) => {
+            if (!scopeVariables.has(scope)) {
+                // Embedded pipelines use the profile if they define it, and their defaults otherwise
+                const {variables, profiles} = scope ?? this;
+                scopeVariables.set(scope, resolveProfileVariables(variables, profiles,
+                    this.profile !== undefined && this.profile in profiles ? this.profile : undefined));
+            }
+            return scopeVariables.get(scope)!;
+        };
+        const issues: string[] = [];
+        const invalidConfigs: string[] = [];
+
+        // Nodes may add further nodes once their config is resolved (see PipelineNode.onConfigResolved)
+        const applied = new Set<string>();
+        for (let added = this.graph.overallOrder(); added.length > 0;
+             added = this.graph.overallOrder().filter(nodeName => !applied.has(nodeName))) {
+            for (const nodeName of added) {
+                applied.add(nodeName);
+                const node = this.graph.getNodeData(nodeName);
+                const scope = this.nodeScopes.get(node);
+                let written = this.writtenConfigs.get(node);
+                if (!written) {
+                    written = {config: node.config.config, outputConfig: node.config.outputConfig};
+                    this.writtenConfigs.set(node, written);
+                }
+
+                const nodeIssues: string[] = [];
+                const variables = variablesOf(scope);
+                node.config.config = substituteVariables(written.config, variables, 'config', nodeIssues) as Record<string, any>;
+                if (written.outputConfig) {
+                    node.config.outputConfig = substituteVariables(written.outputConfig, variables, 'outputConfig', nodeIssues) as Record<string, any>;
+                }
+                issues.push(...nodeIssues.map(issue => `${nodeName}: ${issue}`));
+
+                // References were let through at construction, so check the values they resolved to
+                if (nodeIssues.length === 0) {
+                    const nodeClass = node.constructor as typeof PipelineNode;
+                    try {
+                        validateNodeConfig(nodeClass.name, node.config, nodeClass.configSchema);
+                    } catch (err: any) {
+                        invalidConfigs.push(err.message);
+                        continue;
                     }
+                    const directory = scope?.directory ?? this.directory;
+                    if (directory !== undefined) {
+                        Object.assign(node.config, resolveConfigPaths(node.config, nodeClass.configSchema, directory));
+                    }
+                    node.onConfigResolved?.(this);
                 }
             }
-        }, 5000);
+        }
 
-        // Cache for resolveInput to avoid redundant glob operations during cache validation
-        const resolveInputCache = new Map<string, Promise<string[]>>();
+        if (this.profile !== undefined) {
+            const scopes = [this, ...this.nodeScopes.values()];
+            if (!scopes.some(scope => this.profile! in scope.profiles)) {
+                // Fails with the profiles defined anywhere
+                resolveProfileVariables({}, Object.assign({}, ...scopes.map(scope => scope.profiles)), this.profile);
+            }
+        }
+        if (issues.length > 0) {
+            const defined = Object.keys(variablesOf());
+            throw new Error(
+                `Unknown variables in pipeline ${this.name}${this.profile ? ` (profile "${this.profile}")` : ''}:\n  ${issues.join('\n  ')}\n` +
+                (defined.length > 0 ? `Defined variables: ${defined.join(', ')}` : 'No variables are defined')
+            );
+        }
+        if (invalidConfigs.length > 0) {
+            throw new Error(`${invalidConfigs.join('\n')}\n(after substituting the variables${this.profile ? ` of profile "${this.profile}"` : ''})`);
+        }
+        this.variablesApplied = true;
+    }
 
-        const context: PipelineContext = {
-            resolveInput: async (input: Input): Promise<string[]> => {
-                // Create a cache key from the input
-                const cacheKey = JSON.stringify(input, (key, value) => {
-                    // Handle NodeOutputReference specially to create stable keys
-                    if (value && typeof value === 'object' && 'node' in value && 'name' in value) {
-                        return `NodeRef:${value.node.name}:${value.name}:${value.glob || ''}`;
+    /**
+     * Get all nodes (including expanded composite internals) in execution order.
+     */
+    getNodes(): PipelineNode<any, any>[] {
+        this.resolveDependencies();
+        return this.graph.overallOrder().map(name => this.graph.getNodeData(name));
+    }
+
+    /**
+     * Get the fully expanded graph, including composite internal nodes, edge types and output keys.
+     */
+    getGraph(): PipelineGraph {
+        const nodes = this.getNodes();
+
+        const parents = new Map<string, string>();
+        const outputs = new Map<string, Set<string>>(nodes.map(node => [node.name, new Set<string>()]));
+        for (const node of nodes) {
+            if (isCompositeNode(node)) {
+                for (const internalNode of node.getInternalNodes()) {
+                    parents.set(internalNode.name, node.name);
+                }
+                for (const [outputName, mapping] of Object.entries(node.getOutputMappings())) {
+                    outputs.get(node.name)!.add(outputName);
+                    outputs.get(mapping.node)?.add(mapping.output);
+                }
+            }
+        }
+
+        const edges: PipelineGraph['edges'] = [];
+        for (const node of nodes) {
+            for (const dependencyName of this.graph.directDependenciesOf(node.name)) {
+                for (const edge of this.dependencyEdges.get(`${node.name}->${dependencyName}`) ?? []) {
+                    edges.push(edge);
+                    if (edge.output) {
+                        outputs.get(edge.from)?.add(edge.output);
+                    }
+                }
+            }
+        }
+
+        return {
+            name: this.name,
+            nodes: nodes.map(node => ({
+                name: node.name,
+                type: node.constructor.name,
+                ...(parents.has(node.name) && {parent: parents.get(node.name)}),
+                outputs: Array.from(outputs.get(node.name)!).sort()
+            })),
+            edges
+        };
+    }
+
+    /**
+     * Get the names of the nodes a node directly depends on.
+     */
+    getDirectDependencies(nodeName: string): string[] {
+        this.resolveDependencies();
+        return this.graph.directDependenciesOf(nodeName);
+    }
+
+    /**
+     * Check the pipeline without doing any work: from() references to undeclared output keys,
+     * input globs that match nothing, output paths written by more than one node or item
+     * (predicted with PipelineNode.predictOutputs), outputs no node consumes, explicit dependencies
+     * other edges already imply and the checks of registered plugins.
+     * Only the given nodes are checked (default: all); issues in composite internal nodes are
+     * reported once per composite.
+     */
+    async validate(nodeNames?: string[]): Promise<ValidationIssue[]> {
+        const nodes = this.getNodes();
+        const checked = new Set(nodeNames ?? nodes.map(node => node.name));
+        const issues: ValidationIssue[] = [];
+
+        const parents = new Map<string, string>();
+        for (const node of nodes) {
+            if (isCompositeNode(node)) {
+                for (const internalNode of node.getInternalNodes()) {
+                    parents.set(internalNode.name, node.name);
+                }
+            }
+        }
+
+        // Composites first, so that problems they pass on to their internal nodes are reported under their name
+        const reported = new Set<string>();
+        const report = (issue: ValidationIssue, detail: string) => {
+            const key = `${issue.check}|${parents.get(issue.node) ?? issue.node}|${detail}`;
+            if (!reported.has(key)) {
+                reported.add(key);
+                issues.push(issue);
+            }
+        };
+        const configOrder = [
+            ...nodes.filter(node => !parents.has(node.name)),
+            ...nodes.filter(node => parents.has(node.name))
+        ].filter(node => checked.has(node.name));
+
+        for (const node of configOrder) {
+            // from() references anywhere in the config
+            const checkReferences = (value: any, keyPath: string) => {
+                if (inputIsNodeOutputReference(value)) {
+                    const declared = value.node.getOutputKeys();
+                    if (declared && !declared.includes(value.name)) {
+                        report({
+                            check: 'undeclared-output',
+                            severity: 'error',
+                            node: node.name,
+                            message: `${keyPath}: node "${value.node.name}" (${value.node.constructor.name}) has no output ` +
+                                `"${value.name}". Declared outputs: ${declared.join(', ')}`
+                        }, `${value.node.name}:${value.name}`);
+                    }
+                } else if (value && typeof value === 'object' && value.type !== 'file') {
+                    for (const [key, child] of Object.entries(value)) {
+                        checkReferences(child, Array.isArray(value) ? `${keyPath}[${key}]` : `${keyPath}.${key}`);
+                    }
+                }
+            };
+            checkReferences(node.config.config, 'config');
+
+            // Globs in config keys the node's schema declares as inputs
+            const schema = (node.constructor as typeof PipelineNode).configSchema;
+            for (const [key, field] of Object.entries(schema?.config ?? {})) {
+                if (![field.type].flat().includes('input')) continue;
+                let value = node.config.config[key];
+                while (value && inputIsFilteredInput(value)) value = value.input;
+                const patterns: string[] = typeof value === 'string' ? [value]
+                    : Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string')
+                    : [];
+                for (const pattern of patterns) {
+                    // Files in the outputDir of an upstream node may not have been written yet
+                    const written = this.graph.directDependenciesOf(node.name).some(dependencyName =>
+                        (this.dependencyEdges.get(`${node.name}->${dependencyName}`) ?? [])
+                            .some(edge => edge.type === 'inferred' && globOverlapsDir(pattern, edge.outputDir!)));
+                    if (!written && (await glob(pattern)).length === 0) {
+                        report({
+                            check: 'empty-glob',
+                            severity: 'error',
+                            node: node.name,
+                            message: `config.${key}: "${pattern}" matches no files`
+                        }, pattern);
                     }
-                    return value;
+                }
+            }
+        }
+
+        issues.push(...this.findOutputCollisions(await this.predictOutputs(nodes), checked));
+
+        for (const node of nodes) {
+            if (!checked.has(node.name) || this.graph.dependantsOf(node.name).length > 0) continue;
+            // Nodes without output options, e.g. embedded pipelines, write where their own nodes say
+            const outputFields = (node.constructor as typeof PipelineNode).configSchema?.outputConfig;
+            if (outputFields && Object.keys(outputFields).length === 0) continue;
+            if (node.config.outputConfig?.outputDir === undefined) {
+                issues.push({
+                    check: 'unconsumed-output',
+                    severity: 'warning',
+                    node: node.name,
+                    message: `No node consumes the outputs, and they stay in the build directory (${path.join(this.buildDir, node.name)})`
                 });
+            }
+        }
 
-                // Check cache first
-                const cached = resolveInputCache.get(cacheKey);
-                if (cached) {
-                    return cached;
+        // Composites pass their explicit dependencies on to their internal nodes, so one is only
+        // redundant when it is implied for all of them
+        const expanded = (node: PipelineNode): PipelineNode[] =>
+            isCompositeNode(node) ? [node, ...node.getInternalNodes().flatMap(expanded)] : [node];
+        const implied = new Map<string, Set<string>>();
+        const isImplied = (nodeName: string, dependencyName: string): boolean => {
+            if (!implied.has(nodeName)) implied.set(nodeName, this.impliedDependencies(nodeName));
+            const dependencies = implied.get(nodeName)!;
+            // A composite is implied once all the nodes it expanded into are
+            const dependencyNodes = expanded(this.graph.getNodeData(dependencyName)).slice(1);
+            return dependencies.has(dependencyName) ||
+                (dependencyNodes.length > 0 && dependencyNodes.every(dependencyNode => dependencies.has(dependencyNode.name)));
+        };
+
+        for (const node of configOrder) {
+            const parent = parents.has(node.name) ? this.graph.getNodeData(parents.get(node.name)!) : undefined;
+            const inherited: string[] = parent?.config.explicitDependencies ?? [];
+            const explicitDependencies: string[] = node.config.explicitDependencies ?? [];
+            const redundant = explicitDependencies
+                .filter(dependencyName => !inherited.includes(dependencyName))
+                .filter(dependencyName => expanded(node)
+                    .filter(holder => holder === node || holder.config.explicitDependencies?.includes(dependencyName))
+                    .every(holder => isImplied(holder.name, dependencyName)));
+            if (redundant.length > 0) {
+                report({
+                    check: 'redundant-dependency',
+                    severity: 'warning',
+                    node: node.name,
+                    message: `explicitDependencies: ${redundant.map(name => `"${name}"`).join(', ')} ` +
+                        `${redundant.length === 1 ? 'is' : 'are'} already implied by from() references or the files the node reads`
+                }, redundant.join(','));
+            }
+        }
+
+        // Plugin issues about nodes that aren't being checked are left out
+        await callPlugins(this.plugins, 'validate', async plugin => {
+            const pluginIssues = await plugin.validate!(this);
+            issues.push(...pluginIssues.filter(issue => checked.has(issue.node) || !this.graph.hasNode(issue.node)));
+        });
+
+        return issues;
+    }
+
+    /**
+     * Nodes a node depends on, directly or transitively, through edges other than explicit ones.
+     */
+    private impliedDependencies(nodeName: string): Set<string> {
+        const implied = new Set<string>();
+        const pending = [nodeName];
+        while (pending.length > 0) {
+            const current = pending.pop()!;
+            for (const dependencyName of this.graph.directDependenciesOf(current)) {
+                const edges = this.dependencyEdges.get(`${current}->${dependencyName}`) ?? [];
+                if (implied.has(dependencyName) || !edges.some(edge => edge.type !== 'explicit')) continue;
+                implied.add(dependencyName);
+                pending.push(dependencyName);
+            }
+        }
+        return implied;
+    }
+
+    /**
+     * Predict the outputs of all nodes that implement predictOutputs, in execution order.
+     * Nodes reading an output that can't be predicted (or an empty glob) are left out.
+     */
+    private async predictOutputs(nodes: PipelineNode[]): Promise<Map<string, Partial<NodeOutput<any>>>> {
+        const predicted = new Map<string, Partial<NodeOutput<any>>>();
+
+        const resolvePredicted = async (input: Input): Promise<string[]> => {
+            if (Array.isArray(input)) {
+                return (await Promise.all(input.map(resolvePredicted))).flat();
+            }
+            if (inputIsFilteredInput(input)) {
+                return applyInputFilter(await resolvePredicted(input.input), input.filter, input.directory);
+            }
+            if (!inputIsNodeOutputReference(input)) {
+                // Empty globs are reported separately and shouldn't hide collisions of the other items
+                return glob(input);
+            }
+
+            const source = this.resolveOutputSource(input.node.name, input.name);
+            const outputs = predicted.get(source.node)?.[source.output];
+            if (!outputs) {
+                throw new Error(`Outputs of node "${input.node.name}" can't be predicted`);
+            }
+            return input.glob ? outputs.filter(outputPath => this.matchesOutputGlob(outputPath, input)) : outputs;
+        };
+
+        const context: PipelineContext = {
+            ...this.createContext(),
+            log: () => {},
+            events: new PipelineEvents(),
+            resolveInput: resolvePredicted
+        };
+
+        for (const node of nodes) {
+            if (!node.predictOutputs) continue;
+            try {
+                predicted.set(node.name, await node.predictOutputs({...context, ...this.scopedPaths(node)}));
+            } catch {
+                // Unpredictable inputs; reported by the other checks where that is a problem
+            }
+        }
+
+        return predicted;
+    }
+
+    /**
+     * Report files written by more than one node or item, grouped by the nodes involved.
+     */
+    private findOutputCollisions(predicted: Map<string, Partial<NodeOutput<any>>>, checked: Set<string>): ValidationIssue[] {
+        const writers = new Map<string, string[]>();
+        for (const [nodeName, outputs] of predicted) {
+            for (const outputPath of Object.values(outputs).flat() as string[]) {
+                const resolved = path.resolve(outputPath);
+                writers.set(resolved, [...(writers.get(resolved) ?? []), nodeName]);
+            }
+        }
+
+        const collisions = new Map<string, string[]>();
+        for (const [filePath, nodeNames] of writers) {
+            if (nodeNames.length < 2) continue;
+            const group = Array.from(new Set(nodeNames)).join(', ');
+            collisions.set(group, [...(collisions.get(group) ?? []), path.relative(process.cwd(), filePath)]);
+        }
+
+        const issues: ValidationIssue[] = [];
+        for (const [group, filePaths] of collisions) {
+            const nodeNames = group.split(', ');
+            if (!nodeNames.some(nodeName => checked.has(nodeName))) continue;
+            const writtenBy = nodeNames.length > 1 ? `Nodes ${nodeNames.map(n => `"${n}"`).join(' and ')} write` : `Several items write`;
+            issues.push({
+                check: 'output-collision',
+                severity: 'error',
+                node: nodeNames[0],
+                message: `${writtenBy} the same ${filePaths.length} file(s), e.g. ${filePaths.slice(0, 3).join(', ')}`
+            });
+        }
+        return issues;
+    }
+
+    /**
+     * Validate the given nodes before running them: warnings are emitted as events, errors fail the run.
+     */
+    private async assertValid(nodeNames: string[]): Promise<void> {
+        const issues = await this.validate(nodeNames);
+        for (const issue of issues.filter(issue => issue.severity === 'warning')) {
+            this.events.emit('warning', {message: issue.message, node: issue.node});
+        }
+
+        const errors = issues.filter(issue => issue.severity === 'error');
+        if (errors.length > 0) {
+            throw new Error(`Pipeline validation failed:\n  ${errors.map(issue => `[${issue.node}] ${issue.message}`).join('\n  ')}`);
+        }
+    }
+
+    async run(options: RunOptions = {}) {
+        this.resolveDependencies();
+        const {executionOrder, reused} = this.planRun(options);
+        if (options.validate !== false) {
+            await this.assertValid(executionOrder);
+        }
+
+        // Restore outputs of satisfied upstream nodes before spawning any workers
+        for (const nodeName of reused) {
+            await this.restoreNodeOutputs(nodeName);
+        }
+
+        if (options.workerPool) {
+            this.workerPool = options.workerPool;
+            const detach = this.workerPool.addListener(this.createWorkerPoolListener());
+            try {
+                await this.execute(executionOrder, reused, options.signal);
+            } finally {
+                detach();
+            }
+            return;
+        }
+
+        this.workerPool = this.createWorkerPool();
+
+        try {
+            await this.execute(executionOrder, reused, options.signal);
+        } finally {
+            // Always cleanup: terminate worker pool
+            await this.workerPool.terminate();
+        }
+    }
+
+    /**
+     * Evaluate the cache for every node without doing any work.
+     * Nodes run in plan mode so that withCache only performs Phase 1 validation; nodes that
+     * don't use withCache are not run and their outputs from the previous run are used instead.
+     */
+    async plan(options: RunOptions = {}): Promise<NodePlan[]> {
+        this.resolveDependencies();
+        const {executionOrder, reused} = this.planRun(options);
+
+        for (const nodeName of reused) {
+            await this.restoreNodeOutputs(nodeName);
+        }
+
+        // Planning does no work, so nothing is reported
+        const context: PipelineContext = {...this.createContext(), log: () => {}, events: new PipelineEvents()};
+        const pendingOutputs = new Set<string>();
+        const plans: NodePlan[] = [];
+
+        for (const nodeName of executionOrder) {
+            const node = this.graph.getNodeData(nodeName);
+            const isComposite = isCompositeNode(node);
+            const nodePlan: NodePlan = {
+                nodeName,
+                mode: isComposite ? 'composite' : node.plannable ? 'cached' : 'uncached',
+                cached: 0,
+                stale: 0,
+                new: 0,
+                invalidations: []
+            };
+            plans.push(nodePlan);
+
+            if (!node.plannable) {
+                const previousOutputs = await this.cache.getNodeOutputs(this.recordKey(nodeName));
+                if (previousOutputs) {
+                    this.nodeOutputs.set(nodeName, previousOutputs);
                 }
+                continue;
+            }
 
-                // Compute and cache the result (cache the promise to handle concurrent calls)
-                const resultPromise = this.resolveInputImpl(input);
-                resolveInputCache.set(cacheKey, resultPromise);
-                return resultPromise;
-            },
-            log: (message: string) => console.log(`  [${this.name}] ${message}`),
-            cache: this.cache,
-            buildDir: this.buildDir,
-            workerPool: this.workerPool,
-            getBuildPath: (nodeName: string, inputPath: string, newExtension?: string): string => {
-                let relativePath = inputPath;
+            try {
+                const output = await node.run({
+                    ...this.createNodeContext(context, node),
+                    plan: {node: nodePlan, pendingOutputs}
+                });
+                this.nodeOutputs.set(nodeName, output);
+            } catch (err: any) {
+                nodePlan.mode = 'error';
+                nodePlan.error = err.message;
+            }
+        }
 
-                // Check if this is a build artifact path and strip build dir + source node name
-                const resolvedBuildDir = path.resolve(this.buildDir);
-                const resolvedInputPath = path.resolve(inputPath);
+        return plans;
+    }
 
-                if (resolvedInputPath.startsWith(resolvedBuildDir)) {
-                    // Strip build dir: .efes-build/upstream:transform/some/path/file.html
-                    const afterBuildDir = path.relative(resolvedBuildDir, resolvedInputPath);
+    /**
+     * Determine which nodes to execute and which to reuse from the cache for the given run options.
+     * Both lists are in execution order.
+     */
+    private planRun(options: RunOptions): { executionOrder: string[], reused: string[] } {
+        const fullOrder = this.graph.overallOrder();
+        for (const nodeName of [...(options.targets ?? []), ...(options.from ?? [])]) {
+            if (!this.graph.hasNode(nodeName)) {
+                throw new Error(`Node "${nodeName}" not found in pipeline`);
+            }
+        }
 
-                    // Strip source node name: upstream:transform/some/path/file.html -> some/path/file.html
-                    const pathParts = afterBuildDir.split(path.sep);
-                    if (pathParts.length > 1) {
-                        relativePath = path.join(...pathParts.slice(1));
-                    }
-                } else {
-                    // For non-build paths, make them relative to cwd
-                    relativePath = path.relative(process.cwd(), inputPath);
+        // Targets and their upstream closure
+        let selected = new Set(fullOrder);
+        if (options.targets && options.targets.length > 0) {
+            selected = new Set(options.targets.flatMap(target => [target, ...this.graph.dependenciesOf(target)]));
+        }
+
+        // From nodes (including internal nodes of composites) and everything downstream of them
+        let toExecute = selected;
+        if (options.from && options.from.length > 0) {
+            const downstream = new Set<string>();
+            for (const fromNode of options.from) {
+                const node = this.graph.getNodeData(fromNode);
+                const internalNodes = isCompositeNode(node) ? node.getInternalNodes() : [];
+                for (const nodeName of [fromNode, ...internalNodes.map(n => n.name)]) {
+                    downstream.add(nodeName);
+                    this.graph.dependantsOf(nodeName).forEach(dependant => downstream.add(dependant));
                 }
+            }
+            toExecute = new Set(Array.from(selected).filter(nodeName => downstream.has(nodeName)));
+        }
 
-                // Now build the new path
-                const buildPath = path.join(this.buildDir, nodeName, relativePath);
-                return newExtension ?
-                    buildPath.replace(path.extname(buildPath), newExtension) :
-                    buildPath;
-            },
-            stripBuildPrefix: (inputPath: string): string => {
-                const resolvedBuildDir = path.resolve(this.buildDir);
-                const resolvedInputPath = path.resolve(inputPath);
-
-                if (resolvedInputPath.startsWith(resolvedBuildDir)) {
-                    // Strip build dir: .efes-build/node-name/some/path/file.html
-                    const afterBuildDir = path.relative(resolvedBuildDir, resolvedInputPath);
-
-                    // Strip the first path segment (node directory): node-name/some/path/file.html -> some/path/file.html
-                    const pathParts = afterBuildDir.split(path.sep);
-                    if (pathParts.length > 1) {
-                        return path.join(...pathParts.slice(1));
-                    }
-                    // If only one segment, return as is
-                    return afterBuildDir;
+        return {
+            executionOrder: fullOrder.filter(nodeName => toExecute.has(nodeName)),
+            reused: fullOrder.filter(nodeName => selected.has(nodeName) && !toExecute.has(nodeName))
+        };
+    }
+
+    /**
+     * Load the outputs a node produced in a previous run from the cache, verifying they still exist.
+     */
+    private async restoreNodeOutputs(nodeName: string): Promise<void> {
+        const outputs = await this.cache.getNodeOutputs(this.recordKey(nodeName));
+        if (!outputs) {
+            throw new Error(`No cached outputs for node "${nodeName}". Run it first without --from.`);
+        }
+
+        for (const filePath of outputs.flatMap(output => Object.values(output).flat())) {
+            try {
+                await fs.access(filePath);
+            } catch {
+                throw new Error(`Cached output of node "${nodeName}" is missing: ${filePath}. Run it first without --from.`);
+            }
+        }
+
+        this.nodeOutputs.set(nodeName, outputs);
+        this.events.emit('node:reused', {node: nodeName});
+    }
+
+    /**
+     * Run the pipeline once, then keep the worker pool alive and watch the project directory.
+     * A changed file re-executes only the nodes that read it (via resolved input globs, fileRefs
+     * or discovered dependencies) and the nodes depending on them. Unless `validate` is false, these
+     * nodes are validated again before each rebuild, since the change may have removed an input
+     * they need; a rebuild with errors is reported as failed and the next change tries again.
+     */
+    async watch(debounceMs: number = 300, {validate = true}: Pick<RunOptions, 'validate'> = {}): Promise<PipelineWatcher> {
+        this.events.emit('log', {message: `Watching pipeline ${this.name}`});
+
+        this.resolveDependencies();
+        if (validate) {
+            await this.assertValid(this.graph.overallOrder());
+        }
+        this.workerPool = this.createWorkerPool();
+
+        // Aborted on close, so that a running build winds down instead of completing
+        const controller = new AbortController();
+
+        try {
+            await this.execute(this.graph.overallOrder(), [], controller.signal);
+        } catch (err: any) {
+            this.events.emit('watch:build-failed', {initial: true, error: err});
+        }
+
+        // The pipeline's directory and those of the pipelines it embeds, unless they are inside another one
+        const directories = [...new Set([this.directory ?? '.', ...Array.from(this.nodeScopes.values(), scope => scope.directory)]
+            .map(dir => path.resolve(dir)))];
+        const watchedDirs = directories.filter(dir => !directories.some(other => dir.startsWith(other + path.sep)));
+
+        // Outputs are written by the pipeline itself and must not retrigger it
+        const ignoredDirs = [
+            this.buildDir,
+            this.cacheDir,
+            ...watchedDirs.flatMap(dir => [path.join(dir, 'node_modules'), path.join(dir, '.git')]),
+            ...this.graph.overallOrder()
+                .map(name => this.graph.getNodeData(name).config.outputConfig?.outputDir)
+                .filter((dir): dir is string => typeof dir === 'string')
+        ].map(dir => path.resolve(dir));
+
+        const isIgnored = (filePath: string) =>
+            ignoredDirs.some(dir => filePath === dir || filePath.startsWith(dir + path.sep));
+
+        const changedFiles = new Set<string>();
+        let debounceTimer: NodeJS.Timeout | undefined;
+        let currentBuild: Promise<void> = Promise.resolve();
+
+        const rebuild = async () => {
+            const changed = Array.from(changedFiles);
+            changedFiles.clear();
+
+            const affected = this.getAffectedNodes(changed);
+            this.events.emit('watch:change', {files: changed.map(f => path.relative(process.cwd(), f)), nodes: affected});
+            if (affected.length === 0) return;
+
+            if (controller.signal.aborted) return;
+            try {
+                if (validate) {
+                    await this.assertValid(affected);
                 }
+                await this.execute(affected, [], controller.signal);
+            } catch (err: any) {
+                this.events.emit('watch:build-failed', {initial: false, error: err});
+            }
+        };
 
-                // For non-build paths, make them relative to cwd
-                return path.relative(process.cwd(), inputPath);
-            },
-            getNodeOutputs: (nodeName: string) => this.nodeOutputs.get(nodeName)
+        const watchers = watchedDirs.map(watchedDir => fsSync.watch(watchedDir, { recursive: true }, (_event, filename) => {
+            if (!filename) return;
+            const filePath = path.resolve(watchedDir, filename.toString());
+            if (isIgnored(filePath)) return;
+
+            changedFiles.add(filePath);
+            clearTimeout(debounceTimer);
+            debounceTimer = setTimeout(() => {
+                // Serialize rebuilds so changes during a build are picked up afterwards
+                currentBuild = currentBuild.then(rebuild);
+            }, debounceMs);
+        }));
+
+        this.events.emit('watch:ready', {directories: watchedDirs});
+
+        return {
+            close: async () => {
+                clearTimeout(debounceTimer);
+                watchers.forEach(watcher => watcher.close());
+                controller.abort(new Error('Watch mode stopped'));
+                await currentBuild;
+                await this.workerPool.terminate();
+            }
+        };
+    }
+
+    /**
+     * Map changed files to the nodes that read them, plus everything depending on those nodes.
+     * Returns node names in execution order.
+     */
+    private getAffectedNodes(changedFiles: string[]): string[] {
+        const cwd = process.cwd();
+        const directlyAffected = new Set<string>();
+
+        for (const nodeName of this.graph.overallOrder()) {
+            const files = this.nodeWatchedFiles.get(nodeName) ?? new Set();
+            const globs = this.nodeWatchedGlobs.get(nodeName) ?? new Set();
+
+            const matches = changedFiles.some(filePath =>
+                files.has(filePath) ||
+                // Globs catch files added since the last run
+                Array.from(globs).some(pattern => path.isAbsolute(pattern)
+                    ? minimatch(filePath, pattern)
+                    : minimatch(path.relative(cwd, filePath), pattern))
+            );
+            if (matches) {
+                directlyAffected.add(nodeName);
+            }
+        }
+
+        const affected = new Set(directlyAffected);
+        for (const nodeName of directlyAffected) {
+            for (const dependant of this.graph.dependantsOf(nodeName)) {
+                affected.add(dependant);
+            }
+        }
+
+        return this.graph.overallOrder().filter(name => affected.has(name));
+    }
+
+    /**
+     * Execute the given nodes (in topological order) with a fresh context, using the current worker pool.
+     * Nodes outside the given list are treated as complete, with their outputs from the previous run
+     * (`reused` lists those restored from the cache, for reporting).
+     * Aborting `signal` drops queued work and lets running nodes wind down before rejecting.
+     */
+    private async execute(executionOrder: string[], reused: string[] = [], signal?: AbortSignal): Promise<void> {
+        for (const nodeName of executionOrder) {
+            this.nodeTimings.delete(nodeName);
+        }
+
+        const reportCollector = new BuildReportCollector(this.events);
+        const manifestCollector = new ManifestCollector(this.events, this.directory);
+        try {
+            await this.executeNodes(executionOrder, reused, signal);
+        } finally {
+            reportCollector.detach();
+            manifestCollector.detach();
+            await this.writeReport(reportCollector);
+            await this.writeManifest(manifestCollector);
+        }
+    }
+
+    /**
+     * Write the build report of the last execution pass into the build directory.
+     * A report that cannot be written is reported as a warning and does not fail the run.
+     */
+    private async writeReport(reportCollector: BuildReportCollector): Promise<void> {
+        try {
+            const written = await writeBuildReport(reportCollector.getReport(), this.buildDir, this.htmlReport);
+            this.events.emit('log', {message: `Build report: ${written.join(', ')}`});
+        } catch (err: any) {
+            this.events.emit('warning', {message: `Could not write build report: ${err.message}`});
         }
+    }
+
+    /**
+     * Update the build manifest with the outputs of the nodes that completed in the last execution pass.
+     * Composite nodes are left out; their outputs are listed under the nodes they expanded into.
+     */
+    private async writeManifest(manifestCollector: ManifestCollector): Promise<void> {
+        const completed = this.getNodes()
+            .filter(node => this.nodeTimings.has(node.name) && !isCompositeNode(node))
+            .map(node => ({
+                name: node.name,
+                outputs: this.nodeOutputs.get(node.name) ?? [],
+                inputs: Array.from(this.nodeWatchedFiles.get(node.name) ?? []),
+                dependencies: this.getDirectDependencies(node.name)
+            }));
+        try {
+            const written = await updateBuildManifest(this.buildDir, this.name, this.getNodes().map(node => node.name),
+                completed, manifestCollector.getProvenance(), this.directory);
+            this.events.emit('log', {message: `Build manifest: ${written}`});
+        } catch (err: any) {
+            this.events.emit('warning', {message: `Could not write build manifest: ${err.message}`});
+        }
+    }
+
+    /**
+     * Run the nodes in the configured execution mode, framed by run:start and run:end events.
+     */
+    private async executeNodes(executionOrder: string[], reused: string[], signal?: AbortSignal): Promise<void> {
+        const pipelineStart = performance.now();
+
+        const run: PipelineEventMap['run:start'] = {
+            pipeline: this.name,
+            executionMode: this.executionMode,
+            nodes: executionOrder,
+            reused,
+            totalNodes: this.graph.size(),
+            workerCount: this.workerCount
+        };
+        this.events.emit('run:start', run);
+
+        // Track currently running nodes for progress reporting
+        const runningNodes = new Set<string>();
+
+        // Report running nodes and busy workers every 5 seconds
+        const supervisorInterval = setInterval(() => {
+            if (runningNodes.size > 0) {
+                const activeJobs = Array.from(this.workerPool.getActiveWorkers().entries())
+                    .map(([workerId, job]) => ({
+                        workerId,
+                        node: job.nodeName,
+                        file: job.xsltPath ?? job.sourcePath
+                    }));
+                this.events.emit('progress', {runningNodes: Array.from(runningNodes), activeJobs});
+            }
+        }, 5000);
+
+        this.itemStreams = new Map(executionOrder
+            .filter(nodeName => this.graph.getNodeData(nodeName).streamsItems)
+            .map(nodeName => [nodeName, new ItemStream<NodeOutput<any>>()]));
+
+        // Aborted by the first failing node, or from outside (e.g. Ctrl-C)
+        const controller = new AbortController();
+        const context: PipelineContext = {
+            ...this.createContext(),
+            signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal
+        };
+        const getNodeDurations = () => Object.fromEntries(
+            executionOrder
+                .filter(nodeName => this.nodeTimings.has(nodeName))
+                .map(nodeName => [nodeName, this.nodeTimings.get(nodeName)! * 1000])
+        );
+
+        // Items skipped by nodes with the 'collect' error policy
+        const failedItems: ItemFailure[] = [];
+        const stopCollecting = this.events.on('item:failed', ({node, item, error}) => {
+            failedItems.push({node, item, message: error.message});
+        });
 
         try {
+            await callPlugins(this.plugins, 'runStart', plugin => plugin.runStart!(context, run));
+
             // Execute nodes based on chosen execution mode
             if (this.executionMode === 'sequential') {
-                await this.executeSequential(executionOrder, context, runningNodes);
+                await this.executeSequential(executionOrder, context, runningNodes, controller);
             } else if (this.executionMode === 'parallel') {
                 const waves = this.calculateWaves(executionOrder);
-                await this.executeParallel(waves, context, runningNodes);
+                await this.executeParallel(waves, context, runningNodes, controller);
             } else {
                 // dynamic mode
-                await this.executeDynamic(executionOrder, context, runningNodes);
+                await this.executeDynamic(executionOrder, context, runningNodes, controller);
             }
 
-            const pipelineTime = ((performance.now() - pipelineStart) / 1000).toFixed(2);
-            context.log(`Pipeline completed in ${pipelineTime}s`);
-
-            // Print timing summary
-            context.log(`\nNode timing summary:`);
-            const timings = Array.from(this.nodeTimings.entries())
-                .sort((a, b) => b[1] - a[1]); // Sort by time, slowest first
-
-            for (const [nodeName, time] of timings) {
-                context.log(`  ${nodeName.padEnd(40)} ${time.toFixed(2)}s`);
+            if (failedItems.length > 0) {
+                throw new Error(`${failedItems.length} item(s) failed`);
             }
+
+            const result: PipelineEventMap['run:end'] = {
+                pipeline: this.name,
+                success: true,
+                durationMs: performance.now() - pipelineStart,
+                nodeDurations: getNodeDurations(),
+                failedItems
+            };
+            await callPlugins(this.plugins, 'runEnd', plugin => plugin.runEnd!(context, result));
+            this.events.emit('run:end', result);
+        } catch (err: any) {
+            const result: PipelineEventMap['run:end'] = {
+                pipeline: this.name,
+                success: false,
+                durationMs: performance.now() - pipelineStart,
+                nodeDurations: getNodeDurations(),
+                failedItems,
+                error: err
+            };
+            // The run already failed; a failing plugin must not hide why
+            await callPlugins(this.plugins, 'runEnd', plugin => plugin.runEnd!(context, result)).catch(pluginErr =>
+                this.events.emit('warning', {message: pluginErr.message}));
+            this.events.emit('run:end', result);
+            throw err;
         } finally {
-            // Always cleanup: stop supervisor and terminate worker pool
+            // Always stop supervisor
             clearInterval(supervisorInterval);
-            await this.workerPool.terminate();
+            stopCollecting();
         }
     }
 
+    /**
+     * Create the context shared by all nodes of one execution pass.
+     */
+    private createContext(): PipelineContext {
+        // Cache for resolveInput to avoid redundant glob operations during cache validation.
+        // Scoped to one pass so that watch mode sees added and removed files.
+        const resolveInputCache = new Map<string, Promise<string[]>>();
+        // Predicates can't be serialized, so filters are keyed by identity
+        const filterIds = new Map<FilteredInput, number>();
+        const directory = this.directory ?? process.cwd();
+
+        const resolveInput = async (input: Input): Promise<string[]> => {
+            // Outputs of a node that is still streaming items are not final yet
+            if (this.hasOpenItemStream(input)) {
+                return this.resolveInputImpl(input);
+            }
+
+            // Create a cache key from the input
+            const cacheKey = JSON.stringify(input, (key, value) => {
+                // Handle NodeOutputReference specially to create stable keys
+                if (value && typeof value === 'object' && 'node' in value && 'name' in value) {
+                    return `NodeRef:${value.node.name}:${value.name}:${value.glob || ''}:${value.directory || ''}`;
+                }
+                if (value && inputIsFilteredInput(value)) {
+                    if (!filterIds.has(value)) filterIds.set(value, filterIds.size);
+                    return `Filter:${filterIds.get(value)}`;
+                }
+                return value;
+            });
+
+            // Check cache first
+            const cached = resolveInputCache.get(cacheKey);
+            if (cached) {
+                return cached;
+            }
+
+            // Compute and cache the result (cache the promise to handle concurrent calls)
+            const resultPromise = this.resolveInputImpl(input);
+            resolveInputCache.set(cacheKey, resultPromise);
+            return resultPromise;
+        };
+
+        return {
+            resolveInput,
+            streamInput: (input: Input) => this.streamInputImpl(input, resolveInput),
+            log: (message: string) => this.events.emit('log', {message}),
+            events: this.events,
+            cache: this.cache,
+            buildDir: this.buildDir,
+            directory,
+            workerPool: this.workerPool,
+            getBuildPath: (nodeName: string, inputPath: string, newExtension?: string) =>
+                this.getBuildPath(nodeName, inputPath, newExtension, directory),
+            stripBuildPrefix: (inputPath: string) => this.stripBuildPrefix(inputPath, directory),
+            getNodeOutputs: (nodeName: string) => this.nodeOutputs.get(nodeName)
+        }
+    }
+
+    /**
+     * Path in a node's build directory for an input path. Outputs of other nodes lose the build directory and
+     * the writing node's directory, other paths are taken relative to the directory the node's paths resolve against.
+     */
+    private getBuildPath(nodeName: string, inputPath: string, newExtension: string | undefined, directory: string): string {
+        let relativePath = inputPath;
+
+        // Check if this is a build artifact path and strip build dir + source node name
+        const resolvedBuildDir = path.resolve(this.buildDir);
+        const resolvedInputPath = path.resolve(inputPath);
+
+        if (resolvedInputPath.startsWith(resolvedBuildDir)) {
+            // Strip build dir: .efes-build/upstream:transform/some/path/file.html
+            const afterBuildDir = path.relative(resolvedBuildDir, resolvedInputPath);
+
+            // Strip source node name: upstream:transform/some/path/file.html -> some/path/file.html
+            const pathParts = afterBuildDir.split(path.sep);
+            if (pathParts.length > 1) {
+                relativePath = path.join(...pathParts.slice(1));
+            }
+        } else if (inputPath !== '') {
+            // For non-build paths, make them relative to the node's directory; no path is the node's build directory
+            relativePath = path.relative(directory, inputPath);
+        }
+
+        // Now build the new path
+        const buildPath = path.join(this.buildDir, nodeName, relativePath);
+        return newExtension ?
+            buildPath.replace(path.extname(buildPath), newExtension) :
+            buildPath;
+    }
+
+    /**
+     * Input path without the build directory and the writing node's directory, or relative to the
+     * directory the node's paths resolve against if it isn't in the build directory.
+     */
+    private stripBuildPrefix(inputPath: string, directory: string): string {
+        const resolvedBuildDir = path.resolve(this.buildDir);
+        const resolvedInputPath = path.resolve(inputPath);
+
+        if (resolvedInputPath.startsWith(resolvedBuildDir)) {
+            // Strip build dir: .efes-build/node-name/some/path/file.html
+            const afterBuildDir = path.relative(resolvedBuildDir, resolvedInputPath);
+
+            // Strip the first path segment (node directory): node-name/some/path/file.html -> some/path/file.html
+            const pathParts = afterBuildDir.split(path.sep);
+            if (pathParts.length > 1) {
+                return path.join(...pathParts.slice(1));
+            }
+            // If only one segment, return as is
+            return afterBuildDir;
+        }
+
+        // For non-build paths, make them relative to the node's directory
+        return path.relative(directory, inputPath);
+    }
+
+    /**
+     * Wrap the shared context for a single node so that the source files and globs it reads
+     * are recorded for watch mode. Outputs of other nodes are not recorded; those
+     * dependencies are covered by the graph.
+     */
+    private createNodeContext(context: PipelineContext, node: PipelineNode): PipelineContext {
+        const files = new Set<string>();
+        const globs = new Set<string>();
+        this.nodeWatchedFiles.set(node.name, files);
+        this.nodeWatchedGlobs.set(node.name, globs);
+
+        const recordInput = async (input: Input): Promise<void> => {
+            if (typeof input === 'string') {
+                globs.add(input);
+                for (const filePath of await context.resolveInput(input)) {
+                    files.add(path.resolve(filePath));
+                }
+            } else if (Array.isArray(input)) {
+                for (const item of input) {
+                    await recordInput(item);
+                }
+            } else if (inputIsFilteredInput(input)) {
+                // Filtered-out files are watched too, e.g. a draft that becomes published
+                await recordInput(input.input);
+            }
+        };
+
+        // FileRefs in config are read directly by some nodes, without resolveInput
+        const recordFileRefs = (value: any) => {
+            if (value?.type === 'file') {
+                files.add(path.resolve(value.path));
+            } else if (value && typeof value === 'object' && !inputIsNodeOutputReference(value)) {
+                Object.values(value).forEach(recordFileRefs);
+            }
+        };
+        recordFileRefs(node.config.config);
+
+        const resolveInput = async (input: Input): Promise<string[]> => {
+            const resolved = await context.resolveInput(input);
+            await recordInput(input);
+            return resolved;
+        };
+
+        const nodeContext: PipelineContext = {
+            ...context,
+            ...this.scopedPaths(node),
+            onError: node.config.onError ?? this.onError,
+            jobOptions: {
+                owner: this,
+                group: node.name,
+                priority: node.config.priority ?? this.criticalPathLength(node.name),
+                maxConcurrency: node.config.maxConcurrency,
+                timeoutMs: node.config.timeout
+            },
+            resolveInput,
+            streamInput: (input: Input) => this.streamInputImpl(input, resolveInput),
+            trackFiles: (filePaths: string[]) => {
+                for (const filePath of filePaths) {
+                    files.add(path.resolve(filePath));
+                }
+            }
+        };
+        if (this.plugins.some(plugin => plugin.afterItem)) {
+            nodeContext.afterItem = (item, outputs) => transformWithPlugins(this.plugins, 'afterItem', outputs,
+                (plugin, itemOutputs) => plugin.afterItem!(nodeContext, node, item, itemOutputs));
+        }
+        return nodeContext;
+    }
+
+    /**
+     * Context members resolving paths against the directory of the pipeline a node was taken over from (see embed).
+     */
+    private scopedPaths(node: PipelineNode): Partial<PipelineContext> {
+        const scope = this.nodeScopes.get(node);
+        if (!scope) return {};
+        return {
+            directory: scope.directory,
+            getBuildPath: (nodeName: string, inputPath: string, newExtension?: string) =>
+                this.getBuildPath(nodeName, inputPath, newExtension, scope.directory),
+            stripBuildPrefix: (inputPath: string) => this.stripBuildPrefix(inputPath, scope.directory)
+        };
+    }
+
+    /**
+     * Number of nodes on the longest chain of nodes depending on this one. Nodes at the start of
+     * long chains, e.g. frontmatter → index aggregation → search index → Eleventy, are on the
+     * critical path and get workers before nodes whose outputs only a final step waits for.
+     */
+    private criticalPathLength(nodeName: string, lengths = new Map<string, number>()): number {
+        const known = lengths.get(nodeName);
+        if (known !== undefined) return known;
+
+        const length = Math.max(0, ...this.graph.directDependantsOf(nodeName)
+            .map(dependant => 1 + this.criticalPathLength(dependant, lengths)));
+        lengths.set(nodeName, length);
+        return length;
+    }
+
     /**
      * Calculate dependency waves for parallel execution.
      * Nodes in the same wave have no dependencies on each other.
@@ -771,34 +2551,184 @@ export class Pipeline {
     }
 
     /**
-     * Execute nodes sequentially in topological order.
+     * Run a single node, store its outputs and timing, and record the outputs in the cache
+     * so that later targeted runs can reuse them without re-running the node.
+     * A failing node aborts the run, so that other nodes stop starting new work.
      */
-    private async executeSequential(
-        executionOrder: string[],
+    private async runNode(
+        nodeName: string,
         context: PipelineContext,
-        runningNodes: Set<string>
+        runningNodes: Set<string>,
+        controller: AbortController
     ): Promise<void> {
-        for (const nodeName of executionOrder) {
-            const node = this.graph.getNodeData(nodeName);
-            const nodeStart = performance.now();
-            context.log(`  ▶ Running: ${node.name}`);
+        const node = this.graph.getNodeData(nodeName);
+        const nodeStart = performance.now();
+        this.events.emit('node:start', {node: node.name});
+
+        runningNodes.add(node.name);
+
+        // Downstream nodes may consume the items of a streaming node before it completes
+        const itemStream = this.itemStreams.get(node.name);
+        const nodeContext = this.createNodeContext(context, node);
+
+        let itemsFailed = false;
+        const stopWatchingFailures = this.events.on('item:failed', failure => {
+            if (failure.node === node.name) itemsFailed = true;
+        });
+
+        try {
+            await callPlugins(this.plugins, 'beforeNode', plugin => plugin.beforeNode!(nodeContext, node));
+            let output = await node.run(itemStream
+                ? {...nodeContext, itemCompleted: outputs => itemStream.push(outputs)}
+                : nodeContext);
+            if (itemStream && this.executionMode === 'dynamic') {
+                // Downstream nodes may have received the items already, so replacements could not reach them
+                await callPlugins(this.plugins, 'afterNode', async plugin => {
+                    if (await plugin.afterNode!(nodeContext, node, output) !== undefined) {
+                        this.events.emit('warning', {
+                            node: node.name,
+                            message: `Outputs returned by afterNode of plugin "${plugin.name}" are ignored, ` +
+                                `since the node streams its items to downstream nodes. Use afterItem instead`
+                        });
+                    }
+                });
+            } else {
+                output = await transformWithPlugins(this.plugins, 'afterNode', output,
+                    (plugin, outputs) => plugin.afterNode!(nodeContext, node, outputs));
+            }
+            this.nodeOutputs.set(node.name, output);
+            itemStream?.close();
+            await this.cache.setNodeOutputs(this.recordKey(node.name), output);
+            // Composite outputs are the files of their internal nodes, which prune their own
+            if (!isCompositeNode(node)) {
+                await this.pruneStaleOutputs(node.name, output, itemsFailed);
+            }
+            const durationMs = performance.now() - nodeStart;
+            this.nodeTimings.set(node.name, durationMs / 1000);
+            this.events.emit('node:end', {node: node.name, success: true, durationMs});
+        } catch (err: any) {
+            // Nodes stopped because of another failure (or Ctrl-C) rethrow the abort reason
+            const cancelled = context.signal?.aborted === true && err === context.signal.reason;
+            this.events.emit('node:end', {
+                node: node.name,
+                success: false,
+                cancelled,
+                durationMs: performance.now() - nodeStart,
+                error: err
+            });
+            controller.abort(err);
+            itemStream?.fail(err);
+            throw err;
+        } finally {
+            stopWatchingFailures();
+            runningNodes.delete(node.name);
+        }
+    }
+
+    /**
+     * Name under which a node's outputs and produced files are recorded in the cache. Profiles
+     * usually write to different places, so each profile keeps its own records and switching
+     * profiles doesn't prune the outputs of the other one.
+     */
+    private recordKey(nodeName: string): string {
+        return this.profile ? `${nodeName}@${this.profile}` : nodeName;
+    }
+
+    /**
+     * Delete the files a node wrote in its previous run but no longer produces, e.g. the outputs
+     * of a source document that was removed, and record the current ones for the next run.
+     * Files that another node outputs in this run or wrote in its last one are kept, since in
+     * dynamic mode that node may not have run yet. Only files in the node's output directory or its
+     * directory in the build directory are deleted, and a stale directory (e.g. a site built by
+     * Eleventy) only if it is empty; anything else is reported and left in place. When items
+     * failed, their previous outputs can't be told apart from stale ones, so nothing is deleted
+     * until the next complete run.
+     */
+    private async pruneStaleOutputs(nodeName: string, output: NodeOutput<any>[], itemsFailed: boolean): Promise<void> {
+        const filesOf = (outputs: NodeOutput<any>[]) => outputs.flatMap(o => Object.values(o).flat() as string[]);
+
+        const current = new Set(filesOf(output));
+        const previous = await this.cache.getProducedFiles(this.recordKey(nodeName)) ?? [];
+        const stale = previous.filter(file => !current.has(file));
+
+        if (itemsFailed) {
+            await this.cache.setProducedFiles(this.recordKey(nodeName), [...current, ...stale]);
+            return;
+        }
 
-            runningNodes.add(node.name);
+        const outputByOtherNodes = new Set<string>();
+        if (stale.length > 0) {
+            for (const otherName of this.graph.overallOrder()) {
+                if (otherName === nodeName || isCompositeNode(this.graph.getNodeData(otherName))) continue;
+                filesOf(this.nodeOutputs.get(otherName) ?? []).forEach(file => outputByOtherNodes.add(path.resolve(file)));
+                const produced = await this.cache.getProducedFiles(this.recordKey(otherName)) ?? [];
+                produced.forEach(file => outputByOtherNodes.add(path.resolve(file)));
+            }
+        }
+        const isKept = (file: string) => {
+            const resolved = path.resolve(file);
+            return outputByOtherNodes.has(resolved) ||
+                Array.from(outputByOtherNodes).some(other => other.startsWith(resolved + path.sep));
+        };
+
+        const outputDir = this.graph.getNodeData(nodeName).config.outputConfig?.outputDir;
+        const outputDirs = [path.join(this.buildDir, nodeName), ...(typeof outputDir === 'string' ? [outputDir] : [])]
+            .map(dir => path.resolve(dir));
+        const isInOutputDir = (file: string) => {
+            const resolved = path.resolve(file);
+            return outputDirs.some(dir => resolved === dir || resolved.startsWith(dir + path.sep));
+        };
 
+        const removed: string[] = [];
+        const outside: string[] = [];
+        // Deepest paths first, so that a stale directory is empty once its stale files are gone
+        for (const file of [...stale].sort((a, b) => path.resolve(b).length - path.resolve(a).length)) {
+            if (isKept(file)) continue;
+            if (!isInOutputDir(file)) {
+                outside.push(file);
+                continue;
+            }
             try {
-                const output = await node.run(context);
-                this.nodeOutputs.set(node.name, output);
-                const nodeTime = (performance.now() - nodeStart) / 1000;
-                this.nodeTimings.set(node.name, nodeTime);
-                context.log(`    ✓ Completed: ${node.name} (${nodeTime.toFixed(2)}s)`);
+                if ((await fs.stat(file)).isDirectory()) {
+                    await fs.rmdir(file);
+                } else {
+                    await fs.rm(file);
+                }
+                removed.push(file);
             } catch (err: any) {
-                context.log(`    ✗ Failed: ${node.name}`);
-                context.log(`      ${err.message}`);
-                throw err;
-            } finally {
-                runningNodes.delete(node.name);
+                if (err.code === 'ENOENT') continue;
+                const message = err.code === 'ENOTEMPTY'
+                    ? `Stale output directory ${file} is not empty and was left in place`
+                    : `Could not remove stale output ${file}: ${err.message}`;
+                this.events.emit('warning', {message, node: nodeName});
             }
         }
+        if (removed.length > 0) {
+            this.events.emit('output:pruned', {node: nodeName, files: removed});
+        }
+        if (outside.length > 0) {
+            this.events.emit('warning', {
+                message: `${outside.length} stale output(s) outside the node's output directory were left in place, e.g. ${outside[0]}`,
+                node: nodeName
+            });
+        }
+
+        await this.cache.setProducedFiles(this.recordKey(nodeName), [...current]);
+    }
+
+    /**
+     * Execute nodes sequentially in topological order.
+     */
+    private async executeSequential(
+        executionOrder: string[],
+        context: PipelineContext,
+        runningNodes: Set<string>,
+        controller: AbortController
+    ): Promise<void> {
+        for (const nodeName of executionOrder) {
+            context.signal?.throwIfAborted();
+            await this.runNode(nodeName, context, runningNodes, controller);
+        }
     }
 
     /**
@@ -808,35 +2738,26 @@ export class Pipeline {
     private async executeParallel(
         waves: Map<number, string[]>,
         context: PipelineContext,
-        runningNodes: Set<string>
+        runningNodes: Set<string>,
+        controller: AbortController
     ): Promise<void> {
         const sortedWaves = Array.from(waves.entries()).sort((a, b) => a[0] - b[0]);
 
         for (const [waveNum, nodeNames] of sortedWaves) {
+            context.signal?.throwIfAborted();
             context.log(`\n▶▶▶ Wave ${waveNum}: ${nodeNames.length} node(s) - ${nodeNames.join(', ')}`);
 
-            // Run all nodes in this wave in parallel
-            await Promise.all(nodeNames.map(async (nodeName) => {
-                const node = this.graph.getNodeData(nodeName);
-                const nodeStart = performance.now();
-                context.log(`  ▶ Running: ${node.name}`);
-
-                runningNodes.add(node.name);
+            // Run all nodes in this wave in parallel; on failure, let the others wind down first
+            const isExclusive = (nodeName: string) => this.graph.getNodeData(nodeName).exclusive;
+            await Promise.allSettled(nodeNames
+                .filter(nodeName => !isExclusive(nodeName))
+                .map(nodeName => this.runNode(nodeName, context, runningNodes, controller)));
+            context.signal?.throwIfAborted();
 
-                try {
-                    const output = await node.run(context);
-                    this.nodeOutputs.set(node.name, output);
-                    const nodeTime = (performance.now() - nodeStart) / 1000;
-                    this.nodeTimings.set(node.name, nodeTime);
-                    context.log(`    ✓ Completed: ${node.name} (${nodeTime.toFixed(2)}s)`);
-                } catch (err: any) {
-                    context.log(`    ✗ Failed: ${node.name}`);
-                    context.log(`      ${err.message}`);
-                    throw err;
-                } finally {
-                    runningNodes.delete(node.name);
-                }
-            }));
+            // Exclusive nodes run one after another once the others are done
+            for (const nodeName of nodeNames.filter(isExclusive)) {
+                await this.runNode(nodeName, context, runningNodes, controller);
+            }
 
             context.log(`  ✓ Wave ${waveNum} complete`);
         }
@@ -845,81 +2766,203 @@ export class Pipeline {
     /**
      * Execute nodes dynamically based on dependency readiness.
      * Nodes start as soon as all their dependencies complete, maximizing parallelism.
+     * A node that streams its items from an item-streaming node starts as soon as that node
+     * has started (see getStreamedDependency). Exclusive nodes wait until no other node is
+     * running, and no other node starts while one of them runs.
+     * After a failure or cancellation no new nodes are started; the returned promise
+     * settles once the running nodes have wound down.
      */
-    private async executeDynamic(
+    private executeDynamic(
         executionOrder: string[],
         context: PipelineContext,
-        runningNodes: Set<string>
+        runningNodes: Set<string>,
+        controller: AbortController
     ): Promise<void> {
         const completed = new Set<string>();
-        const inProgress = new Set<string>();
         const pending = new Set(executionOrder);
-        const errors: Error[] = [];
+        const scheduled = new Set(executionOrder);
+        let running = 0;
+        let exclusiveRunning = false;
 
-        // Helper: Check if node's dependencies are all complete
+        // Helper: Check if node's dependencies are all complete (nodes not scheduled in this pass count as complete).
+        // Direct dependencies suffice: a node only completes after its own dependencies have.
         const isReady = (nodeName: string): boolean => {
-            const deps = this.graph.dependenciesOf(nodeName);
-            return deps.every(dep => completed.has(dep));
+            const streamed = this.getStreamedDependency(nodeName);
+            return this.graph.directDependenciesOf(nodeName).every(dep =>
+                completed.has(dep) ||
+                !scheduled.has(dep) ||
+                (dep === streamed?.via && scheduled.has(streamed.source) && !pending.has(streamed.source)));
         };
 
-        // Helper: Run a single node
-        const runNode = async (nodeName: string): Promise<void> => {
-            const node = this.graph.getNodeData(nodeName);
-            const nodeStart = performance.now();
-            context.log(`  ▶ Running: ${node.name}`);
+        return new Promise((resolve, reject) => {
+            const settleIfDone = () => {
+                if (running > 0) return;
 
-            runningNodes.add(node.name);
+                if (context.signal?.aborted) {
+                    reject(context.signal.reason);
+                } else if (pending.size > 0) {
+                    reject(new Error(`Could not schedule nodes: ${Array.from(pending).join(', ')}`));
+                } else {
+                    resolve();
+                }
+            };
 
-            try {
-                const output = await node.run(context);
-                this.nodeOutputs.set(node.name, output);
-                const nodeTime = (performance.now() - nodeStart) / 1000;
-                this.nodeTimings.set(node.name, nodeTime);
-                context.log(`    ✓ Completed: ${node.name} (${nodeTime.toFixed(2)}s)`);
-            } catch (err: any) {
-                context.log(`    ✗ Failed: ${node.name}`);
-                context.log(`      ${err.message}`);
-                errors.push(err);
-                throw err;
-            } finally {
-                runningNodes.delete(node.name);
-                inProgress.delete(nodeName);
-                completed.add(nodeName);
+            // Start all ready nodes; called again whenever a node finishes
+            const startReadyNodes = (): void => {
+                if (!context.signal?.aborted) {
+                    for (const nodeName of pending) {
+                        if (exclusiveRunning || !isReady(nodeName)) continue;
+
+                        const exclusive = this.graph.getNodeData(nodeName).exclusive;
+                        if (exclusive && running > 0) continue;
+
+                        pending.delete(nodeName);
+                        running++;
+                        exclusiveRunning = exclusive;
+                        this.runNode(nodeName, context, runningNodes, controller)
+                            .then(
+                                () => completed.add(nodeName),
+                                () => {
+                                    // Reported by runNode, which also aborted the run
+                                }
+                            )
+                            .finally(() => {
+                                running--;
+                                if (exclusive) exclusiveRunning = false;
+                                startReadyNodes();
+                            });
+                    }
+                }
+                settleIfDone();
+            };
+
+            startReadyNodes();
+        });
+    }
+
+    /**
+     * Follow composite output mappings to the node that actually produces an output.
+     */
+    private resolveOutputSource(nodeName: string, outputName: string): { node: string, output: string } {
+        let source = {node: nodeName, output: outputName};
+        while (this.graph.hasNode(source.node)) {
+            const node = this.graph.getNodeData(source.node);
+            const mapping = isCompositeNode(node) ? node.getOutputMappings()[source.output] : undefined;
+            if (!mapping) break;
+            source = {node: mapping.node, output: mapping.output};
+        }
+        return source;
+    }
+
+    /**
+     * The item stream of the node producing a referenced output, if that node is still running.
+     */
+    private getOpenItemStream(input: NodeOutputReference): { stream: ItemStream<NodeOutput<any>>, output: string } | undefined {
+        const source = this.resolveOutputSource(input.node.name, input.name);
+        const stream = this.itemStreams.get(source.node);
+        return stream && !stream.isClosed() ? {stream, output: source.output} : undefined;
+    }
+
+    /**
+     * Whether an input (a from() reference, possibly filtered) reads from a node that is still running.
+     */
+    private hasOpenItemStream(input: Input): boolean {
+        if (inputIsFilteredInput(input)) return this.hasOpenItemStream(input.input);
+        return inputIsNodeOutputReference(input) && this.getOpenItemStream(input) !== undefined;
+    }
+
+    /**
+     * The dependency a node may stream its items from instead of waiting for it to complete:
+     * `via` is the dependency named in the node's itemInput, `source` the item-streaming node
+     * producing the output (the same node, or an internal node of a composite).
+     * Nodes that reference `via` elsewhere in their config or list it in explicitDependencies
+     * need its complete outputs and wait as usual.
+     */
+    private getStreamedDependency(nodeName: string): { via: string, source: string } | undefined {
+        const node = this.graph.getNodeData(nodeName);
+        let input = node.itemInput ? node.config.config?.[node.itemInput] : undefined;
+        while (input && inputIsFilteredInput(input)) input = input.input;
+        if (!input || !inputIsNodeOutputReference(input)) return undefined;
+
+        const via = input.node.name;
+        if (node.config.explicitDependencies?.includes(via)) return undefined;
+
+        let otherReferences = 0;
+        const countReferences = (value: any) => {
+            if (value === input) return;
+            if (inputIsNodeOutputReference(value)) {
+                if (value.node.name === via) otherReferences++;
+            } else if (value && typeof value === 'object') {
+                Object.values(value).forEach(countReferences);
             }
         };
+        countReferences(node.config.config);
+        if (otherReferences > 0) return undefined;
 
-        // Start all ready nodes (non-blocking)
-        const startReadyNodes = (): void => {
-            for (const nodeName of pending) {
-                if (!inProgress.has(nodeName) && isReady(nodeName)) {
-                    pending.delete(nodeName);
-                    inProgress.add(nodeName);
+        const source = this.resolveOutputSource(via, input.name).node;
+        if (!this.graph.hasNode(source) || !this.graph.getNodeData(source).streamsItems) return undefined;
+        return {via, source};
+    }
 
-                    // Run node and check for newly ready nodes when complete
-                    runNode(nodeName)
-                        .then(() => {
-                            if (errors.length === 0) {
-                                startReadyNodes();
-                            }
-                        })
-                        .catch(() => {
-                            // Error already logged in runNode, don't start new nodes
-                        });
+    /**
+     * Match a single output path against the glob of a from() reference. Same patterns as
+     * resolveInputImpl, without globbing the file system (the file may not exist yet).
+     */
+    private matchesOutputGlob(outputPath: string, reference: NodeOutputReference): boolean {
+        return minimatch(path.normalize(outputPath), path.normalize(this.outputGlobPattern(outputPath, reference)));
+    }
+
+    /**
+     * Pattern for the glob of a from() reference: relative to the writing node's directory in the build
+     * directory, or else to the directory the referencing node's paths resolve against.
+     */
+    private outputGlobPattern(outputPath: string, reference: NodeOutputReference): string {
+        if (outputPath.startsWith(this.buildDir)) {
+            return `${this.buildDir}/*/${reference.glob}`;
+        }
+        return reference.directory !== undefined ? path.join(escape(reference.directory), reference.glob!) : reference.glob!;
+    }
+
+    /**
+     * Implementation of streamInput. Outputs of a node that is still running are yielded as its
+     * items complete, filtered by the reference's glob; anything else is resolved up front.
+     */
+    private async *streamInputImpl(input: Input, resolveInput: (input: Input) => Promise<string[]>): AsyncGenerator<string> {
+        // Filters of a streamed reference are applied to each file as it arrives
+        if (inputIsFilteredInput(input) && this.hasOpenItemStream(input)) {
+            let kept = 0;
+            for await (const filePath of this.streamInputImpl(input.input, resolveInput)) {
+                if (await passesInputFilter(filePath, input.filter, input.directory)) {
+                    kept++;
+                    yield filePath;
                 }
             }
-        };
-
-        // Initial kick-off
-        startReadyNodes();
+            if (kept === 0) {
+                throw new Error(`All files were excluded by filter: ${describeInputFilter(input.filter)}`);
+            }
+            return;
+        }
 
-        // Wait for all nodes to complete or error
-        while (inProgress.size > 0 || (pending.size > 0 && errors.length === 0)) {
-            await new Promise(resolve => setTimeout(resolve, 100));
+        const open = inputIsNodeOutputReference(input) ? this.getOpenItemStream(input) : undefined;
+        if (!open) {
+            yield* await resolveInput(input);
+            return;
+        }
+        const reference = input as NodeOutputReference;
+
+        let count = 0;
+        for await (const outputs of open.stream) {
+            for (const outputPath of outputs[open.output] ?? []) {
+                if (reference.glob && !this.matchesOutputGlob(outputPath, reference)) continue;
+                count++;
+                yield outputPath;
+            }
         }
 
-        // If there were errors, throw the first one
-        if (errors.length > 0) {
-            throw errors[0];
+        if (count === 0) {
+            throw new Error(reference.glob
+                ? `No files from node "${reference.node.name}" output "${reference.name}" match pattern: ${reference.glob}.`
+                : `Node "${reference.node.name}" has not produced any outputs.`);
         }
     }
 
@@ -938,14 +2981,7 @@ export class Pipeline {
             if (input.glob) {
                 // Determine glob pattern based on first output location
                 // (all outputs from a node are in the same location)
-                let globPattern: string;
-                if (outputs[0]?.startsWith(this.buildDir)) {
-                    // Output is in default build directory - use full path for globbing
-                    globPattern = `${this.buildDir}/*/${input.glob}`
-                } else {
-                    // Output is in custom location - glob from current root
-                    globPattern = input.glob;
-                }
+                const globPattern = this.outputGlobPattern(outputs[0], input);
 
                 // Run glob ONCE to get all matches
                 const matches = await glob(globPattern);
@@ -963,6 +2999,16 @@ export class Pipeline {
             return outputs
         }
 
+        // Filtered inputs
+        if (inputIsFilteredInput(input)) {
+            const resolved = await this.resolveInputImpl(input.input);
+            const filtered = await applyInputFilter(resolved, input.filter, input.directory);
+            if (filtered.length === 0) {
+                throw new Error(`All ${resolved.length} files were excluded by filter: ${describeInputFilter(input.filter)}`);
+            }
+            return filtered;
+        }
+
         // File paths
         if (typeof input === "string") {
             const results = await glob(input)
@@ -992,4 +3038,21 @@ export class Pipeline {
     getNodeOutputs(nodeName: string): NodeOutput<any>[] | undefined {
         return this.nodeOutputs.get(nodeName);
     }
+
+    /**
+     * Absolute paths of the output directories declared by the nodes.
+     * Nested directories are dropped when a parent directory is already included.
+     */
+    getOutputDirs(): string[] {
+        const dirs = new Set<string>();
+        for (const node of this.getNodes()) {
+            const outputDir = node.config.outputConfig?.outputDir;
+            if (typeof outputDir === 'string') {
+                dirs.add(path.resolve(outputDir));
+            }
+        }
+
+        const sorted = Array.from(dirs).sort();
+        return sorted.filter(dir => !sorted.some(other => other !== dir && dir.startsWith(other + path.sep)));
+    }
 }
\ No newline at end of file
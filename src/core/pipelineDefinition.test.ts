@@ -0,0 +1,71 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {buildPipeline, loadPipeline} from "./pipelineDefinition";
+import {createTestContext, InlineWorkerPool} from "../testing";
+
+test("loadPipeline resolves paths against the definition's directory without changing into it", async () => {
+    const context = await createTestContext({files: {
+        "project/in/a.txt": "a",
+        "project/in/sub/b.txt": "b",
+        "project/in/c.txt": "c",
+        "project/copy.pipeline.yaml": [
+            "name: copy",
+            "nodes:",
+            "  - name: copy",
+            "    type: CopyFilesNode",
+            "    config:",
+            "      sourceFiles: { filter: in/**/*.txt, exclude: in/c.txt }",
+            "    outputConfig:",
+            "      outputDir: out",
+            "      stripPathPrefix: in",
+        ].join("\n")
+    }});
+    const cwd = process.cwd();
+    try {
+        const pipeline = (await loadPipeline(context.path("project/copy.pipeline.yaml"))).configure({consoleOutput: false});
+        assert.equal(process.cwd(), cwd);
+        assert.equal(path.resolve(pipeline.buildDir), context.path("project/.efes-build"));
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        const copied = pipeline.getNodeOutputs("copy")!.flatMap(output => output.copied).map(file => path.resolve(file)).sort();
+        assert.deepEqual(copied, [context.path("project/out/a.txt"), context.path("project/out/sub/b.txt")]);
+        assert.equal(await fs.readFile(context.path("project/out/sub/b.txt"), "utf-8"), "b");
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("a declarative MatrixNode template creates its steps for every variant", () => {
+    const pipeline = buildPipeline({
+        name: "matrix",
+        variables: {root: "in"},
+        nodes: [{
+            name: "languages",
+            type: "MatrixNode",
+            config: {
+                matrix: {language: ["en", "de"]},
+                template: [
+                    {name: "html", type: "CopyFilesNode", config: {sourceFiles: {from: "prune", output: "copied"}},
+                        outputConfig: {outputDir: "out/${language}"}},
+                    {name: "prune", type: "CopyFilesNode", config: {sourceFiles: "${root}/${language}/*.xml"},
+                        outputConfig: {outputDir: "pruned/${language}"}}
+                ],
+                outputs: {html: {step: "html", output: "copied"}}
+            }
+        }, {
+            name: "site",
+            type: "CopyFilesNode",
+            config: {sourceFiles: {from: "languages", output: "html:de"}},
+            outputConfig: {outputDir: "site"}
+        }]
+    }).configure({consoleOutput: false});
+
+    const nodes = new Map(pipeline.getNodes().map(node => [node.name, node]));
+    assert.equal(nodes.get("languages:de:prune")!.config.config.sourceFiles, "in/de/*.xml");
+    assert.equal(nodes.get("languages:en:html")!.config.outputConfig!.outputDir, "out/en");
+    assert.equal(nodes.get("languages:en:html")!.config.config.sourceFiles.node, nodes.get("languages:en:prune"));
+    assert.equal(nodes.get("site")!.config.config.sourceFiles.node, nodes.get("languages"));
+});
@@ -0,0 +1,388 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import fsSync from "node:fs";
+import {createRequire} from "node:module";
+import {pathToFileURL} from "node:url";
+import {parse as parseYaml} from "yaml";
+import {type ErrorPolicy, type ExecutionMode, fileRef, filter, from, Pipeline, type PipelineNode, type RetryPolicy} from "./pipeline";
+import {nodeRegistry, type NodeRegistry} from "./nodeRegistry";
+import {type PipelinePlugin} from "./plugins";
+import {MatrixNode, type MatrixVariant} from "./matrixNode";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * Declarative pipeline definition, as read from a JSON or YAML file.
+ *
+ * References are plain objects:
+ * - `{ from: "node-name", output: "transformed", glob?: "**\/*.xml" }` becomes `from(node, output, glob)`
+ * - `{ fileRef: "1-input/indices-config.xsl" }` becomes `fileRef(path)`
+ * - `{ filter: <input>, exclude?, include?, match?, xpath?, namespaces? }` becomes `filter(input, options)`,
+ *   with `match` given as the source of a regular expression
+ *
+ * A MatrixNode's `template` is a list of node definitions, created once per variant (see buildMatrixTemplate).
+ *
+ * @example
+ * ```yaml
+ * name: IRCyR Eleventy
+ * executionMode: dynamic
+ * nodes:
+ *   - name: create-epidoc-11ty-frontmatter
+ *     type: XsltTransformNode
+ *     config:
+ *       sourceFiles: 1-input/inscriptions/*.xml
+ *       stylesheet: { fileRef: 1-input/stylesheets/create-11ty-frontmatter-for-epidoc.xsl }
+ *     outputConfig:
+ *       outputDir: 2-intermediate/eleventy-site/en/inscriptions
+ *       stripPathPrefix: 1-input/inscriptions
+ *       extension: .11tydata.json
+ *   - name: aggregate-indices
+ *     type: AggregateIndexDataNode
+ *     config:
+ *       frontmatterFiles: { from: create-epidoc-11ty-frontmatter, output: transformed }
+ *       indicesConfigFile: { fileRef: 1-input/indices-config.xsl }
+ * ```
+ */
+export interface PipelineDefinition {
+    name: string;
+    buildDir?: string;
+    cacheDir?: string;
+    executionMode?: ExecutionMode;
+    workerCount?: number;
+    onError?: ErrorPolicy;
+    /** Values for ${name} references in node configs */
+    variables?: Record<string, unknown>;
+    /** Named sets of variables overriding `variables`, selected with --profile */
+    profiles?: Record<string, Record<string, unknown>>;
+    /**
+     * Modules (relative to the definition file) that register additional node types on import.
+     * A module whose default export is a PipelinePlugin, or an array of them, is also registered with Pipeline.use()
+     */
+    plugins?: string[];
+    nodes: NodeDefinition[];
+}
+
+export interface NodeDefinition {
+    name: string;
+    /** Type name registered in the NodeRegistry, e.g. "XsltTransformNode" */
+    type: string;
+    config?: Record<string, any>;
+    outputConfig?: Record<string, any>;
+    explicitDependencies?: string[];
+    onError?: ErrorPolicy;
+    priority?: number;
+    maxConcurrency?: number;
+    timeout?: number;
+    retry?: number | RetryPolicy;
+}
+
+function isFromReference(value: any): value is { from: string, output: string, glob?: string } {
+    return value && typeof value === 'object' && !Array.isArray(value) &&
+        typeof value.from === 'string' && typeof value.output === 'string' &&
+        Object.keys(value).every(key => key === 'from' || key === 'output' || key === 'glob');
+}
+
+function isFileReference(value: any): value is { fileRef: string } {
+    return value && typeof value === 'object' && !Array.isArray(value) &&
+        typeof value.fileRef === 'string' && Object.keys(value).length === 1;
+}
+
+function isFilterReference(value: any): value is { filter: any, match?: string } & Record<string, any> {
+    return value && typeof value === 'object' && !Array.isArray(value) && value.filter !== undefined &&
+        Object.keys(value).every(key => ['filter', 'include', 'exclude', 'match', 'xpath', 'namespaces'].includes(key));
+}
+
+/**
+ * Construct a node from its definition. `lookup` returns the node a from() reference names, if there is one.
+ */
+function instantiateNode(
+    nodeDefinition: NodeDefinition,
+    lookup: (name: string) => PipelineNode<any, any> | undefined,
+    registry: NodeRegistry
+): PipelineNode<any, any> {
+    const {name} = nodeDefinition;
+    const nodeClass = registry.get(nodeDefinition.type);
+
+    // Replace plain reference objects with from() and fileRef() values
+    const resolveReferences = (value: any, keyPath: string): any => {
+        if (isFromReference(value)) {
+            const referenced = lookup(value.from);
+            if (!referenced) {
+                throw new Error(`Node "${name}" references unknown node "${value.from}" at ${keyPath}`);
+            }
+            return from(referenced, value.output, value.glob);
+        }
+        if (isFileReference(value)) {
+            return fileRef(value.fileRef);
+        }
+        if (isFilterReference(value)) {
+            const {filter: input, match, ...options} = value;
+            return filter(resolveReferences(input, `${keyPath}.filter`), {
+                ...options,
+                ...(match !== undefined && {match: new RegExp(match)})
+            });
+        }
+        if (Array.isArray(value)) {
+            return value.map((v, i) => resolveReferences(v, `${keyPath}[${i}]`));
+        }
+        if (value && typeof value === 'object') {
+            return Object.fromEntries(Object.entries(value)
+                .map(([k, v]) => [k, resolveReferences(v, `${keyPath}.${k}`)]));
+        }
+        return value;
+    };
+
+    let config: Record<string, any>;
+    const isMatrixNode = nodeClass === MatrixNode || nodeClass.prototype instanceof MatrixNode;
+    if (isMatrixNode && Array.isArray(nodeDefinition.config?.template)) {
+        const {template, ...rest} = nodeDefinition.config;
+        config = {...resolveReferences(rest, 'config'), template: buildMatrixTemplate(name, template, lookup, registry)};
+    } else {
+        config = resolveReferences(nodeDefinition.config ?? {}, 'config');
+    }
+
+    return new nodeClass({
+        name,
+        config,
+        ...(nodeDefinition.outputConfig && {outputConfig: nodeDefinition.outputConfig}),
+        ...(nodeDefinition.explicitDependencies && {explicitDependencies: [...nodeDefinition.explicitDependencies]}),
+        ...(nodeDefinition.onError && {onError: nodeDefinition.onError}),
+        ...(nodeDefinition.priority !== undefined && {priority: nodeDefinition.priority}),
+        ...(nodeDefinition.maxConcurrency !== undefined && {maxConcurrency: nodeDefinition.maxConcurrency}),
+        ...(nodeDefinition.timeout !== undefined && {timeout: nodeDefinition.timeout}),
+        ...(nodeDefinition.retry !== undefined && {retry: nodeDefinition.retry}),
+    });
+}
+
+/**
+ * Template of a MatrixNode written as a list of node definitions, the steps of each variant.
+ * ${param} references in their configs take the variant's parameter values, and from() references
+ * and explicit dependencies naming another step refer to that step's node in the same variant.
+ */
+function buildMatrixTemplate(
+    matrixName: string,
+    steps: NodeDefinition[],
+    lookup: (name: string) => PipelineNode<any, any> | undefined,
+    registry: NodeRegistry
+): (variant: MatrixVariant<Record<string, unknown>>) => PipelineNode<any, any>[] {
+    const stepDefinitions = new Map<string, NodeDefinition>();
+    for (const [index, step] of steps.entries()) {
+        if (typeof step?.name !== 'string' || typeof step?.type !== 'string') {
+            throw new Error(`MatrixNode "${matrixName}": template step at index ${index} requires "name" and "type"`);
+        }
+        if (stepDefinitions.has(step.name)) {
+            throw new Error(`MatrixNode "${matrixName}": duplicate template step "${step.name}"`);
+        }
+        stepDefinitions.set(step.name, step);
+    }
+
+    return variant => {
+        const nodes = new Map<string, PipelineNode<any, any>>();
+        const constructing = new Set<string>();
+
+        const buildStep = (stepName: string): PipelineNode<any, any> => {
+            const existing = nodes.get(stepName);
+            if (existing) return existing;
+            if (constructing.has(stepName)) {
+                throw new Error(`MatrixNode "${matrixName}": circular from() reference involving step "${stepName}"`);
+            }
+            constructing.add(stepName);
+
+            const step = stepDefinitions.get(stepName)!;
+            const node = instantiateNode({
+                ...step,
+                name: variant.name(stepName),
+                config: substituteParams(step.config ?? {}, variant.params) as Record<string, any>,
+                ...(step.outputConfig && {outputConfig: substituteParams(step.outputConfig, variant.params) as Record<string, any>}),
+                ...(step.explicitDependencies && {
+                    explicitDependencies: step.explicitDependencies.map(dep => stepDefinitions.has(dep) ? variant.name(dep) : dep)
+                })
+            }, name => stepDefinitions.has(name) ? buildStep(name) : lookup(name), registry);
+
+            constructing.delete(stepName);
+            nodes.set(stepName, node);
+            return node;
+        };
+
+        return steps.map(step => buildStep(step.name));
+    };
+}
+
+// ${param} references a matrix parameter; $${ and references to other names are left for the pipeline's variables
+const PARAM_PATTERN = /\$?\$\{([A-Za-z_][\w.-]*)\}/g;
+
+function substituteParams(value: unknown, params: Record<string, unknown>): unknown {
+    if (typeof value === 'string') {
+        const single = /^\$\{([A-Za-z_][\w.-]*)\}$/.exec(value);
+        if (single && single[1] in params) return params[single[1]];
+        return value.replace(PARAM_PATTERN, (match, name: string) =>
+            !match.startsWith('$$') && name in params ? String(params[name]) : match);
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => substituteParams(item, params));
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, substituteParams(item, params)]));
+    }
+    return value;
+}
+
+/**
+ * Build a Pipeline from a parsed definition.
+ * Nodes may reference each other in any order; referenced nodes are constructed first.
+ */
+export function buildPipeline(definition: PipelineDefinition, registry: NodeRegistry = nodeRegistry): Pipeline {
+    if (!definition || typeof definition.name !== 'string') {
+        throw new Error(`Pipeline definition requires a "name"`);
+    }
+    if (!Array.isArray(definition.nodes)) {
+        throw new Error(`Pipeline definition "${definition.name}" requires a "nodes" list`);
+    }
+
+    const nodeDefinitions = new Map<string, NodeDefinition>();
+    for (const [index, nodeDefinition] of definition.nodes.entries()) {
+        if (typeof nodeDefinition?.name !== 'string' || typeof nodeDefinition?.type !== 'string') {
+            throw new Error(`Node definition at index ${index} requires "name" and "type"`);
+        }
+        if (nodeDefinitions.has(nodeDefinition.name)) {
+            throw new Error(`Duplicate node name "${nodeDefinition.name}"`);
+        }
+        nodeDefinitions.set(nodeDefinition.name, nodeDefinition);
+    }
+
+    const nodes = new Map<string, PipelineNode<any, any>>();
+    const constructing = new Set<string>();
+
+    const buildNode = (name: string): PipelineNode<any, any> => {
+        const existing = nodes.get(name);
+        if (existing) return existing;
+
+        if (constructing.has(name)) {
+            throw new Error(`Circular from() reference involving node "${name}"`);
+        }
+        constructing.add(name);
+
+        const node = instantiateNode(nodeDefinitions.get(name)!,
+            nodeName => nodeDefinitions.has(nodeName) ? buildNode(nodeName) : undefined, registry);
+
+        constructing.delete(name);
+        nodes.set(name, node);
+        return node;
+    };
+
+    const pipeline = new Pipeline(
+        definition.name,
+        definition.buildDir,
+        definition.cacheDir,
+        definition.executionMode,
+        definition.workerCount
+    );
+    if (definition.onError) {
+        pipeline.configure({onError: definition.onError});
+    }
+    if (definition.variables || definition.profiles) {
+        pipeline.configure({variables: definition.variables, profiles: definition.profiles});
+    }
+
+    // Add in definition order so the graph matches the file
+    for (const name of nodeDefinitions.keys()) {
+        pipeline.addNode(buildNode(name));
+    }
+
+    return pipeline;
+}
+
+/**
+ * Load a pipeline definition from a .json, .yaml or .yml file and build the Pipeline.
+ * Plugin modules listed in the definition are imported first so they can register node types;
+ * the pipeline plugins they export are added to the built pipeline.
+ */
+export async function loadPipelineDefinition(filePath: string, registry: NodeRegistry = nodeRegistry): Promise<Pipeline> {
+    const definition = parseDefinition(await fs.readFile(filePath, 'utf-8'), filePath);
+
+    const pipelinePlugins: PipelinePlugin[] = [];
+    for (const plugin of definition.plugins ?? []) {
+        const pluginPath = path.resolve(path.dirname(filePath), plugin);
+        pipelinePlugins.push(...getPipelinePlugins(await import(pathToFileURL(pluginPath).href)));
+    }
+
+    return buildPipeline(definition, registry).use(...pipelinePlugins);
+}
+
+function parseDefinition(content: string, filePath: string): PipelineDefinition {
+    try {
+        return path.extname(filePath).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    } catch (err: any) {
+        throw new Error(`Could not parse pipeline definition ${filePath}: ${err.message}`);
+    }
+}
+
+function getPipelinePlugins(module: any): PipelinePlugin[] {
+    return [module.default ?? []].flat().filter(isPipelinePlugin);
+}
+
+function isPipelinePlugin(value: unknown): value is PipelinePlugin {
+    return typeof value === 'object' && value !== null && typeof (value as PipelinePlugin).name === 'string';
+}
+
+const DEFINITION_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+/**
+ * Load a pipeline module (.ts, .js) or declarative definition (.json, .yaml, .yml) and return its Pipeline.
+ *
+ * Paths in the pipeline's node configs, build and cache directory are relative to the
+ * pipeline file, so the pipeline is configured with its directory (see PipelineOptions.directory).
+ */
+export async function loadPipeline(pipelineFile: string): Promise<Pipeline> {
+    const resolvedFile = path.resolve(pipelineFile);
+    try {
+        await fs.access(resolvedFile);
+    } catch {
+        throw new Error(`Pipeline file not found: ${pipelineFile}`);
+    }
+
+    const directory = path.dirname(resolvedFile);
+    if (DEFINITION_EXTENSIONS.includes(path.extname(resolvedFile).toLowerCase())) {
+        return (await loadPipelineDefinition(resolvedFile)).configure({directory});
+    }
+
+    const module = await import(pathToFileURL(resolvedFile).href);
+    return findExportedPipeline(module, pipelineFile).configure({directory});
+}
+
+/**
+ * Same as loadPipeline, for nodes that embed a pipeline while the enclosing pipeline resolves its
+ * configs (see SubPipelineNode). Modules are evaluated anew, so a pipeline embedded twice gets its
+ * own nodes each time.
+ */
+export function loadPipelineSync(pipelineFile: string): Pipeline {
+    const resolvedFile = path.resolve(pipelineFile);
+    if (!fsSync.existsSync(resolvedFile)) {
+        throw new Error(`Pipeline file not found: ${pipelineFile}`);
+    }
+
+    const directory = path.dirname(resolvedFile);
+    if (DEFINITION_EXTENSIONS.includes(path.extname(resolvedFile).toLowerCase())) {
+        const definition = parseDefinition(fsSync.readFileSync(resolvedFile, 'utf-8'), resolvedFile);
+        const pipelinePlugins = (definition.plugins ?? [])
+            .flatMap(plugin => getPipelinePlugins(require(path.resolve(directory, plugin))));
+        return buildPipeline(definition).use(...pipelinePlugins).configure({directory});
+    }
+
+    delete require.cache[require.resolve(resolvedFile)];
+    return findExportedPipeline(require(resolvedFile), pipelineFile).configure({directory});
+}
+
+function findExportedPipeline(module: any, pipelineFile: string): Pipeline {
+    // Accept a default or any named export; CJS interop may nest exports under `default`
+    const candidates = [
+        module.default,
+        ...Object.values(module),
+        ...(module.default && typeof module.default === 'object' ? Object.values(module.default) : [])
+    ];
+    const pipeline = candidates.find((value): value is Pipeline => value instanceof Pipeline);
+    if (!pipeline) {
+        throw new Error(`${pipelineFile} does not export a Pipeline`);
+    }
+    return pipeline;
+}
@@ -0,0 +1,106 @@
+import type {NodeOutput, Pipeline, PipelineContext, PipelineNode, ValidationIssue} from "./pipeline";
+import type {PipelineEventMap} from "./events";
+
+/**
+ * Custom code run by a Pipeline at fixed points of a build, registered with Pipeline.use().
+ * All hooks are optional and may be async; plugins run in the order they were registered.
+ *
+ * A hook vetoes by throwing: an error from runStart or beforeNode fails the run or the node,
+ * one from afterItem fails the item (skipped under the 'collect' error policy). afterNode and
+ * afterItem can return replacement outputs, which later plugins and downstream nodes receive.
+ * In dynamic mode, nodes streaming their items pass them on before they complete, so for those
+ * afterNode only observes: returned outputs are ignored with a warning.
+ *
+ * Composite nodes and the nodes they expanded into each pass through the node hooks.
+ *
+ * @example
+ * ```typescript
+ * pipeline.use({
+ *     name: "dashboard",
+ *     runEnd: async (context, {success, durationMs}) => {
+ *         await fetch(dashboardUrl, {method: "POST", body: JSON.stringify({success, durationMs})});
+ *     }
+ * });
+ * ```
+ */
+export interface PipelinePlugin {
+    /** Identifies the plugin in errors thrown by its hooks */
+    name: string;
+
+    /** Additional checks, reported by Pipeline.validate() with the built-in ones (and refusing to build on errors) */
+    validate?(pipeline: Pipeline): ValidationIssue[] | Promise<ValidationIssue[]>;
+
+    /** Before the first node starts */
+    runStart?(context: PipelineContext, run: PipelineEventMap['run:start']): void | Promise<void>;
+
+    /** After the run succeeded or failed. Throwing fails a successful run */
+    runEnd?(context: PipelineContext, result: PipelineEventMap['run:end']): void | Promise<void>;
+
+    /** Before a node runs, with the context the node will receive */
+    beforeNode?(context: PipelineContext, node: PipelineNode<any, any>): void | Promise<void>;
+
+    /**
+     * After a node completed, before its outputs are recorded and passed on. Observe-only for
+     * nodes streaming their items in dynamic mode; use afterItem to change their outputs
+     */
+    afterNode?(
+        context: PipelineContext,
+        node: PipelineNode<any, any>,
+        outputs: NodeOutput<any>[]
+    ): NodeOutput<any>[] | void | Promise<NodeOutput<any>[] | void>;
+
+    /**
+     * After an item of a node using withCache is done, whether it was processed or taken from the cache.
+     * Runs on every build, so augmented outputs don't need to be cached.
+     */
+    afterItem?(
+        context: PipelineContext,
+        node: PipelineNode<any, any>,
+        item: string,
+        outputs: NodeOutput<any>
+    ): NodeOutput<any> | void | Promise<NodeOutput<any> | void>;
+}
+
+type PluginHook = Exclude<keyof PipelinePlugin, 'name'>;
+
+/**
+ * Call a hook of every plugin that has it, in order. Errors name the plugin.
+ */
+export async function callPlugins(
+    plugins: readonly PipelinePlugin[],
+    hook: PluginHook,
+    call: (plugin: PipelinePlugin) => unknown
+): Promise<void> {
+    for (const plugin of plugins) {
+        if (!plugin[hook]) continue;
+        try {
+            await call(plugin);
+        } catch (err: any) {
+            throw pluginError(plugin, hook, err);
+        }
+    }
+}
+
+/**
+ * Pass outputs through a hook of every plugin that has it; a hook returning nothing keeps them.
+ */
+export async function transformWithPlugins<TOutputs>(
+    plugins: readonly PipelinePlugin[],
+    hook: 'afterNode' | 'afterItem',
+    outputs: TOutputs,
+    call: (plugin: PipelinePlugin, outputs: TOutputs) => unknown
+): Promise<TOutputs> {
+    for (const plugin of plugins) {
+        if (!plugin[hook]) continue;
+        try {
+            outputs = (await call(plugin, outputs) as TOutputs | undefined) ?? outputs;
+        } catch (err: any) {
+            throw pluginError(plugin, hook, err);
+        }
+    }
+    return outputs;
+}
+
+function pluginError(plugin: PipelinePlugin, hook: string, err: any): Error {
+    return new Error(`Plugin "${plugin.name}" (${hook}): ${err?.message ?? err}`);
+}
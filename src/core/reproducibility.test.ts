@@ -0,0 +1,40 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {Pipeline, PipelineNode, type PipelineNodeConfig} from "./pipeline";
+import {verifyReproducible} from "./reproducibility";
+import {CopyFilesNode} from "../io/copyFilesNode";
+import {createTestContext, InlineWorkerPool} from "../testing";
+
+// Writes a different random number into its output directory on every run
+class RandomNode extends PipelineNode<PipelineNodeConfig, "written"> {
+    async run() {
+        const outputPath = path.join(this.config.outputConfig!.outputDir!, "random.txt");
+        await fs.mkdir(path.dirname(outputPath), {recursive: true});
+        await fs.writeFile(outputPath, `${Math.random()}\n`);
+        return [{written: [outputPath]}];
+    }
+}
+
+test("verifyReproducible builds twice and reports the files that differ by the node writing them", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a"}});
+    try {
+        const pipeline = new Pipeline("reproducible").configure({directory: context.dir, consoleOutput: false}).addNode(
+            new CopyFilesNode({name: "copy", config: {sourceFiles: "in/*.txt"}, outputConfig: {outputDir: "out", stripPathPrefix: "in"}}),
+            new RandomNode({name: "random", config: {}, outputConfig: {outputDir: "random"}})
+        );
+        const report = await verifyReproducible(pipeline, {workDir: context.path("verify"), workerPool: new InlineWorkerPool()});
+
+        assert.deepEqual(report.runDirs, [context.path("verify/run-1"), context.path("verify/run-2")]);
+        assert.deepEqual(report.differences.map(({file, kind, node}) => ({file: path.resolve(file), kind, node})),
+            [{file: context.path("random/random.txt"), kind: 'changed', node: "random"}]);
+        assert.deepEqual(report.nodes.map(({node, upstream}) => ({node, upstream})), [{node: "random", upstream: []}]);
+
+        // Both builds are kept for inspection
+        const copies = await fs.readdir(report.runDirs[0], {recursive: true});
+        assert.ok(copies.some(file => file.endsWith(path.join("out", "a.txt"))));
+    } finally {
+        await context.dispose();
+    }
+});
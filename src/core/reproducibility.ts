@@ -0,0 +1,270 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import crypto from "node:crypto";
+import {isDeepStrictEqual} from "node:util";
+import {isCompositeNode, type Pipeline, type RunOptions} from "./pipeline";
+
+/** Directory, relative to the pipeline's directory, that verifyReproducible builds into by default */
+export const VERIFY_DIR = '.efes-verify';
+
+/**
+ * A file that is not the same in both builds. Paths in the build directory are given
+ * relative to it, prefixed with `<build>/`, since each build has its own.
+ */
+export interface FileDifference {
+    file: string;
+    /** 'changed': different content; 'missing-first'/'missing-second': only written by the other build */
+    kind: 'changed' | 'missing-first' | 'missing-second';
+    /** Node that wrote the file, if it can be told */
+    node?: string;
+    /** What kind of difference it is, e.g. only the order of JSON entries */
+    detail?: string;
+}
+
+export interface NodeDifferences {
+    node: string;
+    files: FileDifference[];
+    /** Upstream nodes whose outputs differ too. Empty when the node itself is the likely cause */
+    upstream: string[];
+}
+
+export interface ReproducibilityReport {
+    /** Directories holding the build and output directories of each build */
+    runDirs: [string, string];
+    /** Number of files compared */
+    files: number;
+    differences: FileDifference[];
+    /** Differences left out of `differences` because they don't change what is built, e.g. compile times in SEF files */
+    ignored: FileDifference[];
+    /** Differences by the node that wrote them, likely causes first */
+    nodes: NodeDifferences[];
+}
+
+interface BuildSnapshot {
+    /** Hash of every written file, by comparable path */
+    hashes: Map<string, string>;
+    /** Writing node by comparable path */
+    owners: Map<string, string>;
+    /** Comparable path to the copy kept in the run directory */
+    copies: Map<string, string>;
+}
+
+const BUILD_PREFIX = '<build>';
+
+// Compiled stylesheets (SEF) record when they were compiled, and checksums covering that time
+const SEF_COMPILE_TIME_KEYS = ['buildDateTime', 'Σ', 'Σ2'];
+
+/**
+ * Build a pipeline twice with a cold cache and compare every file the builds write, to check
+ * that the same sources produce byte-identical outputs.
+ *
+ * Each build gets its own build and cache directory in `workDir` (default: VERIFY_DIR in the pipeline's directory). The nodes'
+ * output directories are emptied before each build, since that is where the pipeline reads them
+ * back from, and their contents are copied to `workDir` afterwards, so both builds can be
+ * inspected. The pipeline keeps the second build's configuration and outputs.
+ */
+export async function verifyReproducible(
+    pipeline: Pipeline,
+    options: Pick<RunOptions, 'targets' | 'signal' | 'validate' | 'workerPool'> & { workDir?: string } = {}
+): Promise<ReproducibilityReport> {
+    const workDir = path.resolve(options.workDir ?? path.join(pipeline.directory ?? '.', VERIFY_DIR));
+    await fs.rm(workDir, {recursive: true, force: true});
+
+    const runDirs: [string, string] = [path.join(workDir, 'run-1'), path.join(workDir, 'run-2')];
+    const snapshots: BuildSnapshot[] = [];
+    for (const [index, runDir] of runDirs.entries()) {
+        pipeline.events.emit('log', {message: `Reproducibility check: build ${index + 1} of 2 in ${path.relative(process.cwd(), runDir)}`});
+        for (const outputDir of pipeline.getOutputDirs()) {
+            await removeProjectDir(outputDir);
+        }
+
+        const buildDir = path.join(runDir, 'build');
+        pipeline.configure({buildDir, cacheDir: path.join(runDir, 'cache')});
+        await pipeline.run({targets: options.targets, signal: options.signal, validate: options.validate, workerPool: options.workerPool});
+        snapshots.push(await snapshotBuild(pipeline, buildDir, path.join(runDir, 'outputs')));
+    }
+
+    const [first, second] = snapshots;
+    const differences: FileDifference[] = [];
+    const ignored: FileDifference[] = [];
+    const files = new Set([...first.hashes.keys(), ...second.hashes.keys()]);
+    for (const file of Array.from(files).sort()) {
+        const firstHash = first.hashes.get(file);
+        const secondHash = second.hashes.get(file);
+        if (firstHash === secondHash) continue;
+
+        const node = second.owners.get(file) ?? first.owners.get(file);
+        if (firstHash === undefined || secondHash === undefined) {
+            differences.push({file, kind: firstHash === undefined ? 'missing-first' : 'missing-second', ...(node && {node})});
+        } else if (await differsInCompileTimeOnly(first.copies.get(file)!, second.copies.get(file)!)) {
+            ignored.push({file, kind: 'changed', ...(node && {node}), detail: 'compiled stylesheet with a different compile time'});
+        } else {
+            const detail = await describeDifference(first.copies.get(file)!, second.copies.get(file)!);
+            differences.push({file, kind: 'changed', ...(node && {node}), ...(detail && {detail})});
+        }
+    }
+
+    return {runDirs, files: files.size, differences, ignored, nodes: groupByNode(pipeline, differences)};
+}
+
+/**
+ * Hash the files in the build directory and the output directories, attribute them to the nodes
+ * that wrote them and copy the output directories into `copyDir`.
+ */
+async function snapshotBuild(pipeline: Pipeline, buildDir: string, copyDir: string): Promise<BuildSnapshot> {
+    const snapshot: BuildSnapshot = {hashes: new Map(), owners: new Map(), copies: new Map()};
+    const comparablePath = (filePath: string) => {
+        const inBuildDir = path.relative(buildDir, filePath);
+        return inBuildDir.startsWith('..') || path.isAbsolute(inBuildDir)
+            ? path.relative(process.cwd(), filePath)
+            : path.join(BUILD_PREFIX, inBuildDir);
+    };
+
+    // Outputs name their node; other files in an output directory belong to the node declaring the closest one
+    const outputDirOwners: { dir: string, node: string }[] = [];
+    for (const node of pipeline.getNodes()) {
+        if (isCompositeNode(node)) continue;
+        for (const output of pipeline.getNodeOutputs(node.name) ?? []) {
+            for (const file of Object.values(output).flat() as string[]) {
+                snapshot.owners.set(comparablePath(path.resolve(file)), node.name);
+            }
+        }
+        const outputDir = node.config.outputConfig?.outputDir;
+        if (typeof outputDir === 'string') {
+            outputDirOwners.push({dir: path.resolve(outputDir), node: node.name});
+        }
+    }
+    outputDirOwners.sort((a, b) => b.dir.length - a.dir.length);
+
+    const record = async (filePath: string, copyPath: string) => {
+        const file = comparablePath(filePath);
+        snapshot.hashes.set(file, crypto.createHash('sha256').update(await fs.readFile(filePath)).digest('hex'));
+        snapshot.copies.set(file, copyPath);
+        if (!snapshot.owners.has(file)) {
+            const owner = file.startsWith(BUILD_PREFIX + path.sep)
+                ? file.split(path.sep)[1]
+                : outputDirOwners.find(({dir}) => filePath.startsWith(dir + path.sep))?.node;
+            if (owner) snapshot.owners.set(file, owner);
+        }
+    };
+
+    // Files at the top of the build directory are build reports, with the timings of the build
+    for (const filePath of await listFiles(buildDir)) {
+        if (path.dirname(filePath) !== buildDir) await record(filePath, filePath);
+    }
+    for (const outputDir of pipeline.getOutputDirs()) {
+        // Directories outside the project (e.g. a profile writing into another checkout) keep their place below `..`
+        const copyRoot = path.join(copyDir, ...path.relative(process.cwd(), outputDir).split(path.sep).map(part => part === '..' ? '_up' : part));
+        await fs.cp(outputDir, copyRoot, {recursive: true}).catch(() => {});
+        for (const filePath of await listFiles(outputDir)) {
+            await record(filePath, path.join(copyRoot, path.relative(outputDir, filePath)));
+        }
+    }
+
+    return snapshot;
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+    try {
+        const entries = await fs.readdir(dir, {recursive: true, withFileTypes: true});
+        return entries.filter(entry => entry.isFile()).map(entry => path.join(entry.parentPath, entry.name));
+    } catch {
+        return [];
+    }
+}
+
+// Output directories are rebuilt from scratch, but never the project directory itself or anything outside it
+async function removeProjectDir(dir: string): Promise<void> {
+    const relative = path.relative(process.cwd(), dir);
+    if (relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+        await fs.rm(dir, {recursive: true, force: true});
+    }
+}
+
+async function differsInCompileTimeOnly(firstPath: string, secondPath: string): Promise<boolean> {
+    if (!firstPath.endsWith('.sef.json')) return false;
+    try {
+        const [first, second] = await Promise.all([firstPath, secondPath].map(async filePath => {
+            const sef = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+            for (const key of SEF_COMPILE_TIME_KEYS) delete sef[key];
+            return sef;
+        }));
+        return isDeepStrictEqual(first, second);
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Name the kind of difference between two versions of a file where it can be told.
+ */
+async function describeDifference(firstPath: string, secondPath: string): Promise<string | undefined> {
+    const [first, second] = await Promise.all([fs.readFile(firstPath), fs.readFile(secondPath)]);
+
+    if (first.subarray(0, 4).equals(Buffer.from('PK\x03\x04')) && second.subarray(0, 4).equals(Buffer.from('PK\x03\x04'))) {
+        return first.length === second.length
+            ? 'ZIP archive of the same size, e.g. with different entry timestamps'
+            : 'ZIP archive with different entries or entry order';
+    }
+
+    if (first.includes(0) || second.includes(0)) return undefined;
+    const [firstText, secondText] = [first.toString('utf-8'), second.toString('utf-8')];
+
+    if (path.extname(firstPath) === '.json') {
+        try {
+            if (isDeepStrictEqual(canonicalJson(JSON.parse(firstText)), canonicalJson(JSON.parse(secondText)))) {
+                return 'same JSON content in a different order';
+            }
+        } catch {
+            // Not valid JSON; compared as text below
+        }
+    }
+
+    const firstLines = firstText.split('\n');
+    const secondLines = secondText.split('\n');
+    const line = firstLines.findIndex((text, index) => text !== secondLines[index]);
+    if ([...firstLines].sort().join('\n') === [...secondLines].sort().join('\n')) {
+        return `same lines in a different order, from line ${line + 1}`;
+    }
+    return `first difference at line ${(line === -1 ? firstLines.length : line) + 1}`;
+}
+
+// Object keys and array elements in a fixed order, so that only the content is compared
+function canonicalJson(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(canonicalJson).sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)).map(([key, item]) => [key, canonicalJson(item)]));
+    }
+    return value;
+}
+
+/**
+ * Group differences by node, and tell nodes whose upstream nodes built identically (the likely
+ * causes) from nodes that only passed on differences.
+ */
+function groupByNode(pipeline: Pipeline, differences: FileDifference[]): NodeDifferences[] {
+    const byNode = new Map<string, FileDifference[]>();
+    for (const difference of differences) {
+        const node = difference.node ?? '(unknown)';
+        byNode.set(node, [...byNode.get(node) ?? [], difference]);
+    }
+
+    const upstreamOf = (nodeName: string, seen = new Set<string>()): Set<string> => {
+        if (!pipeline.getNodes().some(node => node.name === nodeName)) return seen;
+        for (const dependency of pipeline.getDirectDependencies(nodeName)) {
+            if (seen.has(dependency)) continue;
+            seen.add(dependency);
+            upstreamOf(dependency, seen);
+        }
+        return seen;
+    };
+
+    const nodes = Array.from(byNode, ([node, files]) => ({
+        node,
+        files,
+        upstream: Array.from(upstreamOf(node)).filter(upstream => byNode.has(upstream))
+    }));
+    return nodes.sort((a, b) => Number(a.upstream.length > 0) - Number(b.upstream.length > 0));
+}
@@ -0,0 +1,69 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {loadPipeline} from "./pipelineDefinition";
+import {createTestContext, InlineWorkerPool} from "../testing";
+
+// A project zipping the stylesheets it shares with the other project into its own output directory
+const project = (name: string, variables: Record<string, string>) => [
+    `name: ${name}`,
+    "variables:",
+    ...Object.entries(variables).map(([key, value]) => `  ${key}: ${value}`),
+    "nodes:",
+    "  - name: zip",
+    "    type: ZipCompressNode",
+    "    config:",
+    "      files: ../shared/*.xsl",
+    "    outputConfig:",
+    "      outputDir: ${siteDir}",
+    "      outputFilename: stylesheets.zip",
+].join("\n");
+
+test("embedded pipelines are expanded into one graph and share cache entries", async () => {
+    const context = await createTestContext({files: {
+        "workspace/shared/a.xsl": "<xsl:stylesheet/>",
+        "workspace/ircyr/ircyr.pipeline.yaml": project("ircyr", {siteDir: "site"}),
+        "workspace/sigidoc/sigidoc.pipeline.yaml": project("sigidoc", {siteDir: "public"}),
+        "workspace/workspace.pipeline.yaml": [
+            "name: workspace",
+            "executionMode: parallel",
+            "nodes:",
+            ...["ircyr", "sigidoc"].flatMap(name => [
+                `  - name: ${name}`,
+                "    type: SubPipelineNode",
+                "    config:",
+                `      pipeline: ${name}/${name}.pipeline.yaml`,
+                "      outputs: { zip: { node: zip, output: zip } }",
+            ]),
+            "  - name: publish",
+            "    type: CopyFilesNode",
+            "    config:",
+            "      sourceFiles: { from: sigidoc, output: zip }",
+            "    outputConfig:",
+            "      outputDir: published"
+        ].join("\n")
+    }});
+    try {
+        const pipeline = (await loadPipeline(context.path("workspace/workspace.pipeline.yaml"))).configure({consoleOutput: false});
+        const processed: string[] = [];
+        const reused: string[] = [];
+        pipeline.events.on('item:processed', ({node}) => processed.push(node));
+        pipeline.events.on('item:cache-hit', ({node}) => reused.push(node));
+
+        await pipeline.run({workerPool: new InlineWorkerPool()});
+
+        const names = pipeline.getNodes().map(node => node.name);
+        assert.ok(names.includes("ircyr:zip") && names.includes("sigidoc:zip"));
+        assert.equal(processed.filter(node => node.endsWith(":zip")).length, 1);
+        assert.equal(reused.filter(node => node.endsWith(":zip")).length, 1);
+
+        // Each project's paths and variables resolve against its own directory and definition
+        await fs.access(context.path("workspace/ircyr/site/stylesheets.zip"));
+        await fs.access(context.path("workspace/sigidoc/public/stylesheets.zip"));
+        const published = pipeline.getNodeOutputs("publish")!.flatMap(output => output.copied).map(file => path.resolve(file));
+        assert.deepEqual(published, [context.path("workspace/published/sigidoc/public/stylesheets.zip")]);
+    } finally {
+        await context.dispose();
+    }
+});
@@ -0,0 +1,86 @@
+import {isCompositeNode, type Pipeline, type PipelineNode, type PipelineNodeConfig} from "./pipeline";
+import {CompositeNode} from "./compositeNode";
+import {type ConfigSchema} from "./configSchema";
+import {loadPipelineSync} from "./pipelineDefinition";
+
+interface SubPipelineNodeConfig extends PipelineNodeConfig {
+    config: {
+        /** Pipeline module or definition, relative to the enclosing pipeline's directory */
+        pipeline: string;
+        /** Outputs to expose, by the embedded node producing them and its output key */
+        outputs?: Record<string, { node: string, output: string }>;
+    };
+}
+
+/**
+ * Embeds another pipeline, e.g. to build several projects in one process from a workspace pipeline.
+ *
+ * The embedded pipeline's nodes are expanded into the enclosing pipeline like those of other
+ * composite nodes, named after this node (`ircyr:eleventy-build`). They are scheduled together with
+ * the nodes of the other embedded pipelines on one worker pool, and share the enclosing pipeline's
+ * build directory and cache. Their paths resolve against the embedded pipeline's directory, and
+ * their variables against its variables and profiles (see Pipeline.embed). The pipeline file is
+ * loaded once the enclosing pipeline has resolved this node's config, since its path is relative
+ * to the enclosing pipeline's directory.
+ *
+ * @example
+ * ```typescript
+ * new SubPipelineNode({
+ *     name: "ircyr",
+ *     config: {
+ *         pipeline: "ircyr-11ty/ircyr-11ty.pipeline.ts",
+ *         outputs: {site: {node: "eleventy-build", output: "built"}}
+ *     }
+ * });
+ * ```
+ */
+export class SubPipelineNode extends CompositeNode<SubPipelineNodeConfig, string> {
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            pipeline: {type: 'string', required: true, path: true},
+            outputs: {type: 'object', values: 'object'}
+        },
+        outputConfig: {}
+    };
+
+    private expanded = false;
+
+    // Expanded in onConfigResolved
+    protected buildInternalNodes(): void {}
+
+    getOutputKeys(): readonly string[] {
+        return Object.keys(this.config.config.outputs ?? {});
+    }
+
+    // Nothing to expand until the config is resolved
+    onAddedToPipeline(): void {}
+
+    /**
+     * Load the embedded pipeline and expand its nodes, the first time the config is resolved.
+     */
+    onConfigResolved(pipeline: Pipeline): void {
+        if (this.expanded) return;
+        this.expanded = true;
+
+        const {pipeline: pipelineFile, outputs = {}} = this.config.config;
+        const embedded = loadPipelineSync(pipelineFile).configure({consoleOutput: false});
+        this.internalNodes = pipeline.embed(embedded, this.name);
+
+        const names = new Set<string>();
+        const collectNames = (nodes: PipelineNode<any, any>[]) => nodes.forEach(node => {
+            names.add(node.name);
+            if (isCompositeNode(node)) collectNames(node.getInternalNodes());
+        });
+        collectNames(this.internalNodes);
+
+        for (const [outputName, {node, output}] of Object.entries(outputs)) {
+            const nodeName = `${this.name}:${node}`;
+            if (!names.has(nodeName)) {
+                throw new Error(`SubPipelineNode ${this.name}: output "${outputName}" refers to node "${node}", which ${pipelineFile} does not contain`);
+            }
+            this.outputMappings[outputName] = {node: nodeName, output};
+        }
+
+        super.onAddedToPipeline(pipeline);
+    }
+}
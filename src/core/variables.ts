@@ -0,0 +1,96 @@
+import {inputIsFilteredInput, inputIsNodeOutputReference} from "./pipeline";
+
+// ${name} references a variable, $${ is a literal ${
+const VARIABLE_PATTERN = /\$\$\{|\$\{([A-Za-z_][\w.-]*)\}/g;
+
+/**
+ * Variables of a profile: the defaults, overridden by the profile's values.
+ */
+export function resolveProfileVariables(
+    defaults: Record<string, unknown>,
+    profiles: Record<string, Record<string, unknown>>,
+    profile?: string
+): Record<string, unknown> {
+    if (profile === undefined) return {...defaults};
+
+    if (!(profile in profiles)) {
+        const known = Object.keys(profiles);
+        throw new Error(`Unknown profile "${profile}". ${known.length > 0 ? `Profiles: ${known.join(', ')}` : 'The pipeline defines no profiles'}`);
+    }
+    return {...defaults, ...profiles[profile]};
+}
+
+// A string that is a single reference takes the variable's value as is, e.g. a number or boolean
+const SINGLE_REFERENCE_PATTERN = /^\$\{([A-Za-z_][\w.-]*)\}$/;
+
+/**
+ * Whether a value is a string consisting of a single ${name} reference, which may resolve to any type.
+ */
+export function isVariableReference(value: unknown): value is string {
+    return typeof value === 'string' && SINGLE_REFERENCE_PATTERN.test(value);
+}
+
+function substituteString(value: string, variables: Record<string, unknown>, keyPath: string, issues: string[]): unknown {
+    const single = SINGLE_REFERENCE_PATTERN.exec(value);
+    if (single && single[1] in variables) {
+        return variables[single[1]];
+    }
+
+    return value.replace(VARIABLE_PATTERN, (match, name?: string) => {
+        if (name === undefined) return '${';
+        if (!(name in variables)) {
+            issues.push(`${keyPath}: unknown variable "${name}"`);
+            return match;
+        }
+        return String(variables[name]);
+    });
+}
+
+/**
+ * Replace ${name} references in the strings of a config value. Objects and arrays are only
+ * copied when something in them changed; from() references keep their node, and functions,
+ * regular expressions and class instances are left alone. Unknown variables are appended to `issues`.
+ */
+export function substituteVariables(value: unknown, variables: Record<string, unknown>, keyPath: string, issues: string[]): unknown {
+    if (typeof value === 'string') {
+        return value.includes('${') ? substituteString(value, variables, keyPath, issues) : value;
+    }
+
+    if (Array.isArray(value)) {
+        const substituted = value.map((item, index) => substituteVariables(item, variables, `${keyPath}[${index}]`, issues));
+        return substituted.some((item, index) => item !== value[index]) ? substituted : value;
+    }
+
+    if (value === null || typeof value !== 'object' || value instanceof RegExp) {
+        return value;
+    }
+
+    // Class instances (e.g. nodes) are not config data
+    const prototype = Object.getPrototypeOf(value);
+    if (prototype !== Object.prototype && prototype !== null) {
+        return value;
+    }
+
+    if (inputIsNodeOutputReference(value as any)) {
+        const glob = (value as any).glob;
+        const substituted = substituteVariables(glob, variables, `${keyPath}.glob`, issues);
+        return substituted !== glob ? {...value, glob: substituted} : value;
+    }
+
+    if (inputIsFilteredInput(value as any)) {
+        const {input, filter} = value as any;
+        const substitutedInput = substituteVariables(input, variables, `${keyPath}.input`, issues);
+        const substitutedFilter = substituteVariables(filter, variables, `${keyPath}.filter`, issues);
+        return substitutedInput !== input || substitutedFilter !== filter
+            ? {...value, input: substitutedInput, filter: substitutedFilter}
+            : value;
+    }
+
+    let changed = false;
+    const substituted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+        substituted[key] = substituteVariables(item, variables, `${keyPath}.${key}`, issues);
+        changed ||= substituted[key] !== item;
+    }
+    return changed ? substituted : value;
+}
@@ -6,6 +6,7 @@ import {
     type NodeOutput,
     type UnifiedOutputConfig
 } from "../core/pipeline";
+import {type ConfigSchema} from "../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -42,6 +43,14 @@ export class AggregateBibConcordanceNode extends PipelineNode<
     AggregateBibConcordanceNodeConfig,
     "concordance"
 > {
+    static readonly outputKeys = ["concordance"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            frontmatterFiles: {type: 'input', required: true}
+        }
+    };
+
     async run(context: PipelineContext): Promise<NodeOutput<"concordance">[]> {
         const files = await context.resolveInput(this.config.config.frontmatterFiles);
         const outputDir = this.config.outputConfig?.outputDir ??
@@ -67,7 +76,7 @@ export class AggregateBibConcordanceNode extends PipelineNode<
                     allRefs.push({ ...entry, inscriptionId });
                 }
             } catch (err) {
-                this.log(context, `Warning: Failed to parse ${file}: ${err}`);
+                this.warn(context, `Failed to parse ${file}: ${err}`);
             }
         }
 
@@ -7,6 +7,7 @@ import {
     type NodeOutput,
     type UnifiedOutputConfig
 } from "../core/pipeline";
+import {type ConfigSchema} from "../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -87,6 +88,15 @@ export class AggregateIndexDataNode extends PipelineNode<
     AggregateIndexDataNodeConfig,
     "indexData"
 > {
+    static readonly outputKeys = ["indexData"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            frontmatterFiles: {type: 'input', required: true},
+            indicesConfigFile: {type: ['fileRef', 'string'], required: true, path: true}
+        }
+    };
+
     async run(context: PipelineContext): Promise<NodeOutput<"indexData">[]> {
         const files = await context.resolveInput(this.config.config.frontmatterFiles);
         const configFile = typeof this.config.config.indicesConfigFile === 'string'
@@ -110,7 +120,7 @@ export class AggregateIndexDataNode extends PipelineNode<
                 const inscriptionId = content.documentId;
 
                 if (!inscriptionId) {
-                    this.log(context, `Warning: No documentId in ${file}`);
+                    this.warn(context, `No documentId in ${file}`);
                     continue;
                 }
 
@@ -128,7 +138,7 @@ export class AggregateIndexDataNode extends PipelineNode<
                     }
                 }
             } catch (err) {
-                this.log(context, `Warning: Failed to parse ${file}: ${err}`);
+                this.warn(context, `Failed to parse ${file}: ${err}`);
             }
         }
 
@@ -6,6 +6,7 @@ import {
     type NodeOutput,
     type UnifiedOutputConfig
 } from "../core/pipeline";
+import {type ConfigSchema} from "../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -39,6 +40,15 @@ export class AggregateSearchDataNode extends PipelineNode<
     AggregateSearchDataNodeConfig,
     "searchData"
 > {
+    static readonly outputKeys = ["searchData"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            frontmatterFiles: {type: 'input', required: true},
+            languageLabels: {type: 'object', values: 'string'}
+        }
+    };
+
     async run(context: PipelineContext): Promise<NodeOutput<"searchData">[]> {
         const files = await context.resolveInput(this.config.config.frontmatterFiles);
         const outputDir = this.config.outputConfig?.outputDir ??
@@ -58,7 +68,7 @@ export class AggregateSearchDataNode extends PipelineNode<
 
                 const search = content.search;
                 if (!search) {
-                    this.log(context, `Warning: No search data in ${file}`);
+                    this.warn(context, `No search data in ${file}`);
                     continue;
                 }
 
@@ -87,7 +97,7 @@ export class AggregateSearchDataNode extends PipelineNode<
 
                 documents.push(doc);
             } catch (err) {
-                this.log(context, `Warning: Failed to parse ${file}: ${err}`);
+                this.warn(context, `Failed to parse ${file}: ${err}`);
             }
         }
 
@@ -1,4 +1,5 @@
 import {type Input, type PipelineContext, PipelineNode, type PipelineNodeConfig, type UnifiedOutputConfig} from "../core/pipeline";
+import {type ConfigSchema} from "../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -15,13 +16,22 @@ interface EleventyBuildConfig extends PipelineNodeConfig {
 }
 
 export class EleventyBuildNode extends PipelineNode<EleventyBuildConfig, "built"> {
-    constructor(config: EleventyBuildConfig) {
-        super(config);
+    static readonly outputKeys = ["built"];
 
-        // Validate that source directory is provided
-        if (!this.config.config.sourceDir) {
-            throw new Error(`EleventyBuildNode "${this.name}" requires sourceDir configuration`);
+    // Eleventy resolves passthrough copies and its config file against the working directory,
+    // which run() changes to the directory the node's paths resolve against
+    readonly exclusive = true;
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            sourceDir: {type: 'string', required: true, path: true},
+            eleventyConfig: {type: 'object', values: 'any'}
         }
+    };
+
+    // Everything below the source directory is input to the site, including files other nodes write there
+    getInputPaths(): string[] {
+        return [...super.getInputPaths(), path.join(this.config.config.sourceDir, '**')];
     }
 
     async run(context: PipelineContext) {
@@ -47,14 +57,36 @@ export class EleventyBuildNode extends PipelineNode<EleventyBuildConfig, "built"
         // Ensure output directory exists
         await fs.mkdir(outputDir, { recursive: true });
 
-        // Initialize Eleventy
-        const elev = new Eleventy(sourceDir, outputDir, {
-            ...this.config.config.eleventyConfig,
-        });
-
+        // Run the build; Eleventy returns the passthrough copies and the written pages
+        const workingDir = process.cwd();
+        let passthroughCopies: any[], pages: any[];
+        process.chdir(context.directory);
+        try {
+            const elev = new Eleventy(sourceDir, outputDir, {
+                ...this.config.config.eleventyConfig,
+            });
+            [passthroughCopies, pages] = await elev.write();
+        } finally {
+            process.chdir(workingDir);
+        }
 
-        // Run the build
-        await elev.write();
+        // Each page and copied file comes from a file in the source directory, often written by an upstream node
+        const contentSignature = await this.getContentSignature(context);
+        const fromWorkingDir = (filePath: string) => path.relative(workingDir, path.resolve(context.directory, filePath));
+        const recordProvenance = (item: string, output: string) => context.events.emit('item:provenance', {
+            node: this.name, item: fromWorkingDir(item), outputs: {built: [fromWorkingDir(output)]}, contentSignature, inputs: {}
+        });
+        for (const {map} of passthroughCopies ?? []) {
+            for (const [source, destination] of Object.entries<string>(map ?? {})) {
+                recordProvenance(source, destination);
+            }
+        }
+        for (const page of (pages ?? []).flat(Infinity)) {
+            // Pages with permalink: false are not written
+            if (page?.inputPath && typeof page.outputPath === 'string') {
+                recordProvenance(page.inputPath, page.outputPath);
+            }
+        }
 
         this.log(context, `Eleventy build completed: ${outputDir}`);
 
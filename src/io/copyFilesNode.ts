@@ -1,4 +1,5 @@
 import {type PipelineNodeConfig, PipelineNode, type PipelineContext, type Input, type UnifiedOutputConfig} from "../core/pipeline";
+import {type ConfigSchema, UNIFIED_OUTPUT_CONFIG_SCHEMA} from "../core/configSchema";
 import {copyFile, mkdir, stat, access, constants} from "node:fs/promises";
 import path from "node:path";
 
@@ -12,14 +13,38 @@ interface CopyFilesConfig extends PipelineNodeConfig {
 }
 
 export class CopyFilesNode extends PipelineNode<CopyFilesConfig, "copied"> {
+    static readonly outputKeys = ["copied"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            sourceFiles: {type: 'input', required: true}
+        },
+        outputConfig: {
+            ...UNIFIED_OUTPUT_CONFIG_SCHEMA,
+            outputDir: {type: 'string', required: true, path: true},
+            overwrite: {type: 'boolean'}
+        }
+    };
+
+    async predictOutputs(context: PipelineContext) {
+        const copied: string[] = [];
+        for (const sourcePath of await context.resolveInput(this.config.config.sourceFiles)) {
+            // Directories matched by the glob are not copied; predicted upstream outputs don't exist yet
+            const isDirectory = await stat(sourcePath).then(stats => stats.isDirectory(), () => false);
+            if (!isDirectory) {
+                copied.push(this.calculateOutputPath(sourcePath, context, this.config.outputConfig, undefined));
+            }
+        }
+        return {copied};
+    }
+
     async run(context: PipelineContext) {
         const paths = await context.resolveInput(this.config.config.sourceFiles);
         const copiedFiles: string[] = [];
-
-        // Validate that outputDir is specified
-        if (!this.config.outputConfig?.outputDir) {
-            throw new Error(`CopyFilesNode "${this.name}" requires outputConfig.outputDir to be specified`);
-        }
+        const contentSignature = await this.getContentSignature(context);
+        const recordProvenance = (sourcePath: string, destPath: string) => context.events.emit('item:provenance', {
+            node: this.name, item: sourcePath, outputs: {copied: [destPath]}, contentSignature, inputs: {}
+        });
 
         for (const sourcePath of paths) {
             // Use unified path calculation
@@ -35,6 +60,7 @@ export class CopyFilesNode extends PipelineNode<CopyFilesConfig, "copied"> {
                     // Skip only if dest exists AND is newer than source
                     if (destStat.mtimeMs >= sourceStat.mtimeMs) {
                         copiedFiles.push(destPath);
+                        recordProvenance(sourcePath, destPath);
                         continue;
                     }
                 } catch (error: any) {
@@ -49,6 +75,7 @@ export class CopyFilesNode extends PipelineNode<CopyFilesConfig, "copied"> {
             if ((await stat(sourcePath)).isFile()) {
                 await copyFile(sourcePath, destPath, constants.COPYFILE_FICLONE);
                 copiedFiles.push(destPath);
+                recordProvenance(sourcePath, destPath);
             }
 
             this.log(context, `Copied: ${sourcePath} → ${destPath}`);
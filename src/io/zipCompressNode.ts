@@ -1,4 +1,5 @@
 import {type PipelineNodeConfig, PipelineNode, type PipelineContext, type Input, type UnifiedOutputConfig} from "../core/pipeline";
+import {type ConfigSchema, UNIFIED_OUTPUT_CONFIG_SCHEMA} from "../core/configSchema";
 import {Zip, ZipPassThrough} from "fflate";
 import {createReadStream, createWriteStream} from "node:fs";
 import {mkdir} from "node:fs/promises";
@@ -12,13 +13,22 @@ interface ZipCompressConfig extends PipelineNodeConfig {
 }
 
 export class ZipCompressNode extends PipelineNode<ZipCompressConfig, "zip"> {
-    async run(context: PipelineContext) {
-        const inputPaths = await context.resolveInput(this.config.config.files);
+    readonly plannable = true;
 
-        // Validate that outputFilename is specified
-        if (!this.config.outputConfig?.outputFilename) {
-            throw new Error(`ZipCompressNode "${this.name}" requires outputConfig.outputFilename to be specified`);
+    static readonly outputKeys = ["zip"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            files: {type: 'input', required: true}
+        },
+        outputConfig: {
+            ...UNIFIED_OUTPUT_CONFIG_SCHEMA,
+            outputFilename: {type: ['string', 'function'], required: true}
         }
+    };
+
+    async run(context: PipelineContext) {
+        const inputPaths = await context.resolveInput(this.config.config.files);
 
         // Treat all inputs as a single "item" for caching - we create ONE zip from MANY files
         // The actual dependency tracking happens via inputPaths being read during cache validation
@@ -1,4 +1,5 @@
 import {type Input, type PipelineContext, PipelineNode, type PipelineNodeConfig, type UnifiedOutputConfig} from "../core/pipeline";
+import {type ConfigSchema} from "../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 
@@ -15,6 +16,17 @@ interface FlexSearchIndexConfig extends PipelineNodeConfig {
 }
 
 export class FlexSearchIndexNode extends PipelineNode<FlexSearchIndexConfig, "searchIndex"> {
+    static readonly outputKeys = ["searchIndex"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            documents: {type: 'input', required: true},
+            idField: {type: 'string', required: true},
+            textFields: {type: 'array', items: 'string', required: true},
+            facetFields: {type: 'array', items: 'string', required: true}
+        }
+    };
+
     async run(context: PipelineContext) {
         const jsonFiles = await context.resolveInput(this.config.config.documents);
         if (jsonFiles.length !== 1) {
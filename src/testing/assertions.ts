@@ -0,0 +1,78 @@
+import path from "node:path";
+import fs from "node:fs/promises";
+import assert from "node:assert/strict";
+import {isCompositeNode, type NodeOutput, type PipelineNode} from "../core/pipeline";
+import {type TestContext} from "./testContext";
+
+/**
+ * Run a node with a test context and return its outputs. Composite nodes expand into other
+ * nodes when added to a Pipeline, so they need one to run.
+ */
+export async function runNode<TOutput extends string>(
+    node: PipelineNode<any, TOutput>,
+    context: TestContext
+): Promise<NodeOutput<TOutput>[]> {
+    if (isCompositeNode(node)) {
+        throw new Error(`Node "${node.name}" is a composite node; run it in a Pipeline instead`);
+    }
+    return node.run(context);
+}
+
+/**
+ * Output paths by output key, relative to the context's directory and sorted, so that they can
+ * be compared regardless of the order items finished in.
+ */
+export function outputPaths(context: TestContext, outputs: NodeOutput<any>[]): Record<string, string[]> {
+    const paths: Record<string, string[]> = {};
+    for (const output of outputs) {
+        for (const [key, files] of Object.entries<string[]>(output)) {
+            paths[key] = [...paths[key] ?? [], ...files.map(file => path.relative(context.dir, path.resolve(context.dir, file)))];
+        }
+    }
+    // Keys without files, e.g. no result documents, are left out
+    return Object.fromEntries(Object.entries(paths)
+        .filter(([, files]) => files.length > 0)
+        .map(([key, files]) => [key, files.sort()]));
+}
+
+/**
+ * Assert that a node returned exactly the expected output paths (relative to the context's
+ * directory, in any order) and that the files exist.
+ */
+export async function assertOutputs(
+    context: TestContext,
+    outputs: NodeOutput<any>[],
+    expected: Record<string, string[]>
+): Promise<void> {
+    const expectedPaths = Object.fromEntries(Object.entries(expected)
+        .filter(([, files]) => files.length > 0)
+        .map(([key, files]) => [key, files.map(file => path.normalize(file)).sort()]));
+    assert.deepEqual(outputPaths(context, outputs), expectedPaths);
+
+    const missing: string[] = [];
+    for (const file of Object.values(expectedPaths).flat()) {
+        if (!await fs.stat(context.path(file)).then(stats => stats.isFile(), () => false)) {
+            missing.push(file);
+        }
+    }
+    assert.deepEqual(missing, [], `Output files were not written: ${missing.join(', ')}`);
+}
+
+/**
+ * Content of a file, relative to the context's directory.
+ */
+export async function readOutput(context: TestContext, file: string): Promise<string> {
+    return fs.readFile(path.resolve(context.dir, file), 'utf-8');
+}
+
+/**
+ * Parsed content of a JSON file, relative to the context's directory.
+ */
+export async function readJsonOutput<T = any>(context: TestContext, file: string): Promise<T> {
+    const content = await readOutput(context, file);
+    try {
+        return JSON.parse(content);
+    } catch (err: any) {
+        throw new Error(`${file} is not valid JSON: ${err.message}`);
+    }
+}
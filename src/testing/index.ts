@@ -0,0 +1,3 @@
+export { createTestContext, RecordingEvents, type TestContext, type TestContextOptions } from './testContext';
+export { InlineWorkerPool } from './inlineWorkerPool';
+export { runNode, outputPaths, assertOutputs, readOutput, readJsonOutput } from './assertions';
@@ -0,0 +1,69 @@
+import {type JobOptions, WorkerPool} from "../xml/workerPool";
+
+/**
+ * A WorkerPool that runs jobs in the calling thread, by importing the job's workload module and
+ * calling its performWork(). Errors keep their stack, and tests need no worker threads or build step.
+ *
+ * Jobs start immediately, so priorities and concurrency limits don't apply. A job that exceeds
+ * its timeout fails and its workload is asked to cancel, but it can't be terminated. Terminating the
+ * pool does the same for the running jobs.
+ */
+export class InlineWorkerPool extends WorkerPool {
+    // Running jobs, with a function failing them when the pool is terminated
+    private runningJobs = new Map<any, (error: Error) => void>();
+
+    constructor() {
+        super(0, '');
+    }
+
+    async execute<T>(job: any, signal?: AbortSignal, options: JobOptions = {}): Promise<T> {
+        signal?.throwIfAborted();
+        if (!job.workloadScript) {
+            throw new Error("Job message must include 'workloadScript' property");
+        }
+
+        const workloadModule = await import(job.workloadScript);
+        if (typeof workloadModule.performWork !== 'function') {
+            throw new Error(`Workload module ${job.workloadScript} must export a 'performWork' function`);
+        }
+
+        const terminated = new Promise<never>((_, reject) => this.runningJobs.set(job, error => {
+            workloadModule.cancel?.();
+            reject(error);
+        }));
+        this.listeners.forEach(listener => listener.jobStarted?.(0, job, options));
+        const start = performance.now();
+        let timer: NodeJS.Timeout | undefined;
+        try {
+            const work = Promise.resolve().then(() => workloadModule.performWork(job)) as Promise<T>;
+            const timedOut = options.timeoutMs === undefined ? [] : [new Promise<never>((_, reject) => {
+                timer = setTimeout(() => {
+                    workloadModule.cancel?.();
+                    const seconds = ((performance.now() - start) / 1000).toFixed(1);
+                    reject(Object.assign(new Error(`Worker job timed out after ${seconds}s`), {code: 'ETIMEDOUT'}));
+                }, options.timeoutMs);
+            })];
+            const result = await Promise.race([work, terminated, ...timedOut]);
+            this.listeners.forEach(listener => listener.jobFinished?.(0, job, options, performance.now() - start));
+            return result;
+        } catch (err: any) {
+            this.listeners.forEach(listener => listener.jobFinished?.(0, job, options, performance.now() - start, err));
+            throw err;
+        } finally {
+            clearTimeout(timer);
+            this.runningJobs.delete(job);
+        }
+    }
+
+    getActiveWorkers(): Map<number, any> {
+        return new Map(Array.from(this.runningJobs.keys(), (job, index) => [index, job]));
+    }
+
+    async terminate() {
+        const error = new Error('Worker pool was terminated');
+        for (const fail of this.runningJobs.values()) {
+            fail(error);
+        }
+        this.runningJobs.clear();
+    }
+}
@@ -0,0 +1,208 @@
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import {minimatch} from "minimatch";
+import {
+    type ErrorPolicy,
+    type Input,
+    inputIsFilteredInput,
+    inputIsNodeOutputReference,
+    type NodeOutput,
+    type PipelineContext
+} from "../core/pipeline";
+import {CacheManager} from "../core/cache";
+import {PipelineEvents, type PipelineEventMap, type PipelineEventName} from "../core/events";
+import {describeInputFilter, passesInputFilter} from "../core/inputFilter";
+import {InlineWorkerPool} from "./inlineWorkerPool";
+
+export interface TestContextOptions {
+    /** Files to create, by path relative to the context's directory */
+    files?: Record<string, string | Buffer>;
+    /** Outputs of upstream nodes by node name, returned for from() references to them */
+    nodeOutputs?: Record<string, NodeOutput<any>[]>;
+    onError?: ErrorPolicy;
+    /** Directory to create the files, build and cache directory in. Default: a new temporary directory */
+    dir?: string;
+}
+
+/**
+ * A PipelineContext for running a single node without a Pipeline.
+ *
+ * Input globs are matched against the files given to createTestContext() or addFile(), not the
+ * disk, and resolve to absolute paths in `dir`. Jobs for workers run in the calling thread
+ * (InlineWorkerPool), and the cache lives in `dir`. Output paths of nodes without an `outputDir`
+ * are in `buildDir`; nodes with one should be given an absolute one, e.g. `context.path("out")`.
+ */
+export interface TestContext extends PipelineContext {
+    dir: string;
+    events: RecordingEvents;
+    /** Messages logged by the node */
+    logs: string[];
+
+    /** Absolute path of a path relative to `dir` */
+    path(relativePath: string): string;
+
+    /** Create a file relative to `dir` that input globs can match */
+    addFile(relativePath: string, content: string | Buffer): Promise<string>;
+
+    /** Set the outputs returned for from() references to a node */
+    setNodeOutputs(nodeName: string, outputs: NodeOutput<any>[]): void;
+
+    /** Remove `dir`, unless it was given to createTestContext() */
+    dispose(): Promise<void>;
+}
+
+/**
+ * PipelineEvents that keep every event emitted, for assertions on warnings, failed items etc.
+ */
+export class RecordingEvents extends PipelineEvents {
+    readonly emitted: { name: PipelineEventName; event: unknown }[] = [];
+
+    emit<TName extends PipelineEventName>(name: TName, event: PipelineEventMap[TName]): void {
+        this.emitted.push({name, event});
+        super.emit(name, event);
+    }
+
+    /** Events of one kind, in the order they were emitted */
+    ofType<TName extends PipelineEventName>(name: TName): PipelineEventMap[TName][] {
+        return this.emitted.filter(emitted => emitted.name === name).map(emitted => emitted.event as PipelineEventMap[TName]);
+    }
+}
+
+/**
+ * Create a context for a node test. Call dispose() when the test is done.
+ *
+ * @example
+ * ```typescript
+ * const context = await createTestContext({files: {
+ *     "frontmatter/a.json": JSON.stringify({documentId: "a", entities: {personal_names: [{name: "Ioannes"}]}}),
+ *     "indices-config.xsl": await fs.readFile("projects/ircyr-11ty/1-input/indices-config.xsl")
+ * }});
+ * const node = new AggregateIndexDataNode({name: "indices", config: {
+ *     frontmatterFiles: "frontmatter/*.json",
+ *     indicesConfigFile: fileRef(context.path("indices-config.xsl"))
+ * }});
+ * const outputs = await runNode(node, context);
+ * const names = await readJsonOutput(context, ".efes-build/indices/indices/personal_names.json");
+ * await context.dispose();
+ * ```
+ */
+export async function createTestContext(options: TestContextOptions = {}): Promise<TestContext> {
+    const dir = options.dir ? path.resolve(options.dir) : await fs.mkdtemp(path.join(os.tmpdir(), 'efes-test-'));
+    const buildDir = path.join(dir, '.efes-build');
+    const knownFiles = new Set<string>();
+    const nodeOutputs = new Map(Object.entries(options.nodeOutputs ?? {}));
+    const events = new RecordingEvents();
+    const logs: string[] = [];
+    events.on('log', ({message}) => logs.push(message));
+
+    const relativeToDir = (filePath: string) => path.relative(dir, path.resolve(dir, filePath));
+
+    // Paths in the build directory lose the build directory and the writing node's directory
+    const stripBuildPrefix = (inputPath: string): string => {
+        const afterBuildDir = path.relative(buildDir, path.resolve(dir, inputPath));
+        if (afterBuildDir.startsWith('..') || path.isAbsolute(afterBuildDir)) {
+            return relativeToDir(inputPath);
+        }
+        const pathParts = afterBuildDir.split(path.sep);
+        return pathParts.length > 1 ? path.join(...pathParts.slice(1)) : afterBuildDir;
+    };
+
+    const resolveInput = async (input: Input): Promise<string[]> => {
+        if (inputIsNodeOutputReference(input)) {
+            const outputs = nodeOutputs.get(input.node.name)?.flatMap(output => output[input.name] ?? []) ?? [];
+            if (outputs.length === 0) {
+                throw new Error(`No outputs given for node "${input.node.name}". Pass them as nodeOutputs or with setNodeOutputs()`);
+            }
+            if (!input.glob) return outputs;
+
+            const matching = outputs.filter(outputPath => minimatch(stripBuildPrefix(outputPath), path.normalize(input.glob!)));
+            if (matching.length === 0) {
+                throw new Error(`No files from node "${input.node.name}" output "${input.name}" match pattern: ${input.glob}`);
+            }
+            return matching;
+        }
+
+        if (inputIsFilteredInput(input)) {
+            const filtered: string[] = [];
+            for (const filePath of await resolveInput(input.input)) {
+                // Path conditions are written relative to the project, like the globs
+                if (await passesInputFilter(filePath, input.filter, dir)) {
+                    filtered.push(filePath);
+                }
+            }
+            if (filtered.length === 0) {
+                throw new Error(`All files were excluded by filter: ${describeInputFilter(input.filter)}`);
+            }
+            return filtered;
+        }
+
+        if (typeof input === 'string') {
+            const pattern = path.normalize(path.isAbsolute(input) ? path.relative(dir, input) : input);
+            const matching = Array.from(knownFiles).filter(file => minimatch(file, pattern)).sort();
+            if (matching.length === 0) {
+                throw new Error(`No files found for pattern: ${input}`);
+            }
+            return matching.map(file => path.join(dir, file));
+        }
+
+        if (Array.isArray(input)) {
+            const results: string[] = [];
+            for (const item of input) {
+                results.push(...await resolveInput(item));
+            }
+            return results;
+        }
+
+        return [];
+    };
+
+    const context: TestContext = {
+        dir,
+        events,
+        logs,
+        log: (message: string) => events.emit('log', {message}),
+        onError: options.onError,
+        cache: new CacheManager(path.join(dir, '.efes-cache')),
+        buildDir,
+        directory: dir,
+        workerPool: new InlineWorkerPool(),
+        resolveInput,
+        streamInput: async function* (input: Input) {
+            yield* await resolveInput(input);
+        },
+        getBuildPath: (nodeName: string, inputPath: string, newExtension?: string): string => {
+            // Like the pipeline, a file directly in the build directory keeps its whole path
+            const afterBuildDir = path.relative(buildDir, path.resolve(dir, inputPath));
+            const relativePath = afterBuildDir.split(path.sep).length === 1 && !afterBuildDir.startsWith('..')
+                ? relativeToDir(inputPath)
+                : stripBuildPrefix(inputPath);
+            const buildPath = path.join(buildDir, nodeName, relativePath);
+            return newExtension ? buildPath.replace(path.extname(buildPath), newExtension) : buildPath;
+        },
+        stripBuildPrefix,
+        getNodeOutputs: (nodeName: string) => nodeOutputs.get(nodeName),
+        path: (relativePath: string) => path.join(dir, relativePath),
+        addFile: async (relativePath: string, content: string | Buffer) => {
+            const filePath = path.join(dir, relativePath);
+            await fs.mkdir(path.dirname(filePath), {recursive: true});
+            await fs.writeFile(filePath, content);
+            knownFiles.add(path.normalize(relativePath));
+            return filePath;
+        },
+        setNodeOutputs: (nodeName: string, outputs: NodeOutput<any>[]) => {
+            nodeOutputs.set(nodeName, outputs);
+        },
+        dispose: async () => {
+            await context.workerPool.terminate();
+            if (!options.dir) {
+                await fs.rm(dir, {recursive: true, force: true});
+            }
+        }
+    };
+
+    for (const [relativePath, content] of Object.entries(options.files ?? {})) {
+        await context.addFile(relativePath, content);
+    }
+    return context;
+}
@@ -0,0 +1,142 @@
+import path from "node:path";
+import os from "node:os";
+import fs from "node:fs/promises";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {fileRef, Pipeline, type PipelineContext, PipelineNode, type PipelineNodeConfig} from "../core/pipeline";
+import {CopyFilesNode} from "../io/copyFilesNode";
+import {AggregateIndexDataNode} from "../eleventy/aggregateIndexDataNode";
+import {WorkerPool} from "../xml/workerPool";
+import {assertOutputs, createTestContext, InlineWorkerPool, readJsonOutput, runNode} from "./index";
+
+// Workload whose jobs echo their value, or hang until cancelled
+const HANGING_WORKLOAD = `
+let timer;
+export function performWork(job) {
+    if (!job.hang) return {echo: job.value};
+    return new Promise(resolve => { timer = setTimeout(resolve, 60000); });
+}
+export function cancel() {
+    clearTimeout(timer);
+    globalThis.efesTestCancelled = true;
+}
+`;
+
+test("runNode copies the matched files and assertOutputs checks them", async () => {
+    const context = await createTestContext({files: {"in/a.txt": "a", "in/sub/b.txt": "b", "in/c.xml": "<c/>"}});
+    try {
+        const node = new CopyFilesNode({
+            name: "copy",
+            config: {sourceFiles: "in/**/*.txt"},
+            outputConfig: {outputDir: context.path("out"), stripPathPrefix: "in"}
+        });
+        const outputs = await runNode(node, context);
+
+        await assertOutputs(context, outputs, {copied: ["out/a.txt", "out/sub/b.txt"]});
+        await assert.rejects(assertOutputs(context, outputs, {copied: ["out/a.txt"]}));
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("the documented AggregateIndexDataNode example builds an index", async () => {
+    const context = await createTestContext({files: {
+        "frontmatter/a.json": JSON.stringify({documentId: "a", entities: {personal_names: [{name: "Ioannes"}]}}),
+        "indices-config.xsl": await fs.readFile("projects/ircyr-11ty/1-input/indices-config.xsl")
+    }});
+    try {
+        const node = new AggregateIndexDataNode({name: "indices", config: {
+            frontmatterFiles: "frontmatter/*.json",
+            indicesConfigFile: fileRef(context.path("indices-config.xsl"))
+        }});
+        await runNode(node, context);
+
+        const names = await readJsonOutput(context, ".efes-build/indices/indices/personal_names.json");
+        assert.ok(JSON.stringify(names).includes("Ioannes"));
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("InlineWorkerPool runs jobs in the calling thread and times them out", async () => {
+    const context = await createTestContext();
+    try {
+        const workloadScript = await context.addFile("workload.mjs", HANGING_WORKLOAD);
+        const started: unknown[] = [];
+        context.workerPool.addListener({jobStarted: (_workerId, job) => started.push(job.value)});
+
+        assert.deepEqual(await context.workerPool.execute({workloadScript, value: 1}), {echo: 1});
+        await assert.rejects(
+            context.workerPool.execute({workloadScript, value: 2, hang: true}, undefined, {timeoutMs: 50}),
+            (err: any) => err.code === 'ETIMEDOUT'
+        );
+        assert.equal((globalThis as any).efesTestCancelled, true);
+        assert.deepEqual(started, [1, 2]);
+        assert.ok(context.workerPool instanceof InlineWorkerPool);
+    } finally {
+        await context.dispose();
+    }
+});
+
+test("terminating a pool fails its running and queued jobs", async () => {
+    const context = await createTestContext();
+    try {
+        const workloadScript = await context.addFile("workload.mjs", HANGING_WORKLOAD);
+        const started = new Promise(resolve => context.workerPool.addListener({jobStarted: resolve}));
+        const running = context.workerPool.execute({workloadScript, value: 1, hang: true});
+        // Without workers, every job waits in the queue
+        const pool = new WorkerPool(0, "");
+        const queued = pool.execute({workloadScript, value: 2});
+
+        const failed = Promise.all([
+            assert.rejects(running, /Worker pool was terminated/),
+            assert.rejects(queued, /Worker pool was terminated/)
+        ]);
+        // Let the job reach its workload before terminating
+        await started;
+        await new Promise(resolve => setImmediate(resolve));
+        await Promise.all([context.workerPool.terminate(), pool.terminate()]);
+        await failed;
+    } finally {
+        await context.dispose();
+    }
+});
+
+// Records what the context computes for a few paths, in the pipeline and in the test kit
+class PathProbeNode extends PipelineNode<PipelineNodeConfig, string> {
+    static readonly probes = ["in/a.xml", ".efes-build/upstream/sub/b.html", ".efes-build/c.html"];
+    results: string[] = [];
+
+    async run(context: PipelineContext) {
+        this.results = PathProbeNode.probes.flatMap(probe => [
+            context.stripBuildPrefix(probe),
+            context.getBuildPath(this.name, probe),
+            context.getBuildPath(this.name, probe, ".json")
+        ]);
+        return [];
+    }
+}
+
+test("the test context resolves build paths like a pipeline", async () => {
+    const context = await createTestContext();
+    const pipelineDir = await fs.mkdtemp(path.join(os.tmpdir(), 'efes-test-'));
+    const cwd = process.cwd();
+    try {
+        const relative = (dir: string, results: string[]) => results.map(result => path.relative(dir, path.resolve(dir, result)));
+
+        const inTestContext = new PathProbeNode({name: "probe", config: {}});
+        await runNode(inTestContext, context);
+
+        // Pipelines resolve paths against the working directory
+        process.chdir(pipelineDir);
+        const inPipeline = new PathProbeNode({name: "probe", config: {}});
+        const pipeline = new Pipeline("probe", ".efes-build", ".efes-cache").configure({consoleOutput: false});
+        await pipeline.addNode(inPipeline).run({workerPool: new InlineWorkerPool()});
+
+        assert.deepEqual(relative(context.dir, inTestContext.results), relative(pipelineDir, inPipeline.results));
+    } finally {
+        process.chdir(cwd);
+        await fs.rm(pipelineDir, {recursive: true, force: true});
+        await context.dispose();
+    }
+});
@@ -1,4 +1,4 @@
-import { spawn } from "child_process";
+import { type ChildProcess, spawn } from "child_process";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import fs from "node:fs";
@@ -31,6 +31,16 @@ function resolveXslt3Binary(): string {
     return 'xslt3-he';
 }
 
+// The running xslt3 process; terminating the worker thread would leave it running
+let activeChild: ChildProcess | undefined;
+
+/**
+ * Kill the running compilation, called by the worker when the job timed out.
+ */
+export function cancel(): void {
+    activeChild?.kill('SIGKILL');
+}
+
 export async function performWork(job: CompileJob): Promise<CompileResult> {
     return new Promise<CompileResult>((resolve, reject) => {
         // Use spawn instead of fork since xslt3-he is a binary, not a Node script
@@ -50,6 +60,7 @@ export async function performWork(job: CompileJob): Promise<CompileResult> {
         const child = spawn(xslt3Binary, args, {
             stdio: ['ignore', 'pipe', 'pipe'] // Capture stdout and stderr
         });
+        activeChild = child;
 
         let stdout = '';
         let stderr = '';
@@ -66,12 +77,13 @@ export async function performWork(job: CompileJob): Promise<CompileResult> {
             });
         }
 
-        child.on('close', (code) => {
+        child.on('close', (code, signal) => {
+            activeChild = undefined;
             if (code === 0) {
-                console.log(`Successfully compiled: ${path.basename(job.outputPath)}`);
                 resolve({ outputPath: job.outputPath });
             } else {
-                reject(new Error(`XSLT compilation failed with exit code ${code}\nstderr: ${stderr}`));
+                const status = signal ? `was killed by ${signal}` : `failed with exit code ${code}`;
+                reject(new Error(`XSLT compilation ${status}\nstderr: ${stderr}`));
             }
         });
 
@@ -4,7 +4,15 @@ if (!parentPort) {
     throw new Error("genericWorker must be run as a worker thread");
 }
 
+// Module of the job being processed, asked to cancel it when the job times out
+let activeWorkload: { cancel?(): void } | undefined;
+
 parentPort.on("message", async (message) => {
+    if (message.cancel) {
+        activeWorkload?.cancel?.();
+        return;
+    }
+
     try {
         // Extract workload script path from job message
         if (!message.workloadScript) {
@@ -19,6 +27,7 @@ parentPort.on("message", async (message) => {
             throw new Error(`Workload module ${message.workloadScript} must export a 'performWork' function`);
         }
 
+        activeWorkload = workloadModule;
         const result = await workloadModule.performWork(message);
         parentPort!.postMessage({ success: true, result });
     } catch (error: any) {
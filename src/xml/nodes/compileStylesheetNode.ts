@@ -1,4 +1,5 @@
 import {type Input, type PipelineContext, PipelineNode, type PipelineNodeConfig, type UnifiedOutputConfig} from "../../core/pipeline";
+import {type ConfigSchema} from "../../core/configSchema";
 import path from "node:path";
 import fs from "node:fs/promises";
 import fsSync from "node:fs";
@@ -17,6 +18,19 @@ interface CompileStylesheetConfig extends PipelineNodeConfig {
 }
 
 export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig, "compiledStylesheet"> {
+    readonly plannable = true;
+    readonly itemInput = 'stylesheets';
+    readonly streamsItems = true;
+    readonly runsOnWorkers = true;
+
+    static readonly outputKeys = ["compiledStylesheet"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            stylesheets: {type: 'input', required: true},
+            stubLibPath: {type: ['fileRef', 'input']}
+        }
+    };
 
     // Helper: Calculate compiled output path using unified path handling
     private getCompiledPath(item: string, context: PipelineContext): string {
@@ -24,8 +38,13 @@ export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig,
         return this.calculateOutputPath(item, context, config, '.sef.json');
     }
 
-    async run(context: PipelineContext) {
+    async predictOutputs(context: PipelineContext) {
         const xsltPaths = await context.resolveInput(this.config.config.stylesheets);
+        return {compiledStylesheet: xsltPaths.map(item => this.getCompiledPath(item, context))};
+    }
+
+    async run(context: PipelineContext) {
+        const xsltPaths = context.streamInput(this.config.config.stylesheets);
 
         // Resolve stubLibPath if provided
         let resolvedStubLibPath: string | undefined;
@@ -55,13 +74,13 @@ export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig,
                 }
                 throw new Error(`Unknown output key: ${outputKey}`);
             },
-            async (item) => {
+            async (item, signal) => {
                 const outputPath = this.getCompiledPath(item, context);
 
                 this.log(context, `Compiling ${item} to ${outputPath}`);
 
                 // Extract XSLT dependencies before compilation
-                const discoveredDependencies = await this.extractXsltDependencies(item);
+                const discoveredDependencies = await this.extractXsltDependencies(item, context);
                 this.log(context, `Found ${discoveredDependencies.length} dependencies: ${JSON.stringify(discoveredDependencies)}`);
 
                 try {
@@ -80,7 +99,7 @@ export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig,
                         xsltPath: item,
                         outputPath,
                         stubLibPath: resolvedStubLibPath
-                    });
+                    }, signal, context.jobOptions);
 
                     this.log(context, `Compiled: ${result.outputPath}`);
 
@@ -99,11 +118,11 @@ export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig,
         return results.map(r => r.outputs);
     }
 
-    private async extractXsltDependencies(xsltPath: string): Promise<string[]> {
+    private async extractXsltDependencies(xsltPath: string, context: PipelineContext): Promise<string[]> {
         const allDependencies = new Set<string>();
         const processed = new Set<string>();
 
-        async function processFile(filePath: string) {
+        const processFile = async (filePath: string) => {
             if (processed.has(filePath)) return;
             processed.add(filePath);
 
@@ -123,9 +142,9 @@ export class CompileStylesheetNode extends PipelineNode<CompileStylesheetConfig,
                     await processFile(resolvedPath); // Recursively process dependencies
                 }
             } catch (error) {
-                console.warn(`Could not parse XSLT dependencies from ${filePath}:`, error);
+                this.warn(context, `Could not parse XSLT dependencies from ${filePath}: ${error}`);
             }
-        }
+        };
 
         await processFile(xsltPath);
         return Array.from(allDependencies);
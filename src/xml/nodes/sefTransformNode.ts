@@ -7,6 +7,7 @@ import {
     type PipelineNodeConfig,
     type UnifiedOutputConfig
 } from "../../core/pipeline";
+import {type ConfigSchema} from "../../core/configSchema";
 import path from "node:path";
 import { readFile } from "node:fs/promises";
 import fs from "node:fs";
@@ -29,6 +30,25 @@ interface SefTransformConfig extends PipelineNodeConfig {
 
 
 export class SefTransformNode extends PipelineNode<SefTransformConfig, "transformed" | "result-documents"> {
+    readonly plannable = true;
+    readonly itemInput = 'sourceFiles';
+    readonly streamsItems = true;
+    readonly runsOnWorkers = true;
+
+    static readonly outputKeys = ["transformed", "result-documents"];
+
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            sourceFiles: {type: 'input'},
+            sefStylesheet: {type: ['fileRef', 'input'], required: true},
+            initialTemplate: {type: 'string'},
+            stylesheetParams: {type: 'object', values: 'any'},
+            tunnelParams: {type: 'object', values: 'any'},
+            templateParams: {type: 'object', values: 'any'},
+            serializationParams: {type: 'object', values: 'any'},
+            initialMode: {type: 'string'},
+        }
+    };
 
     // Helper: Calculate transformed output path using unified path handling
     private getTransformedPath(item: string, context: PipelineContext): string {
@@ -38,15 +58,27 @@ export class SefTransformNode extends PipelineNode<SefTransformConfig, "transfor
         return this.calculateOutputPath(item, context, config, defaultExt);
     }
 
+    // Result documents are only known after transforming
+    async predictOutputs(context: PipelineContext) {
+        const sourcePaths = this.config.config.sourceFiles ?
+            await context.resolveInput(this.config.config.sourceFiles) :
+            [await this.resolveSefStylesheetPath(context)];
+        return {transformed: sourcePaths.map(item => this.getTransformedPath(item, context))};
+    }
+
+    private async resolveSefStylesheetPath(context: PipelineContext): Promise<string> {
+        return (this.config.config.sefStylesheet as any).path
+            ? (this.config.config.sefStylesheet as FileRef).path
+            : (await context.resolveInput(this.config.config.sefStylesheet as Input))[0];
+    }
+
     async run(context: PipelineContext) {
         // const startTime = Date.now();
 
         // Handle both FileRef and Input (NodeOutputReference) for sefStylesheet
         // this.log(context, `[DEBUG] Resolving SEF stylesheet reference...`);
         // const resolveStartTime = Date.now();
-        const sefStylesheetPath = (this.config.config.sefStylesheet as any).path
-            ? (this.config.config.sefStylesheet as FileRef).path
-            : (await context.resolveInput(this.config.config.sefStylesheet as Input))[0];
+        const sefStylesheetPath = await this.resolveSefStylesheetPath(context);
         // this.log(context, `[DEBUG] SEF stylesheet resolved in ${Date.now() - resolveStartTime}ms: ${sefStylesheetPath}`);
 
         // this.log(context, `[DEBUG] Loading SEF stylesheet JSON...`);
@@ -59,7 +91,7 @@ export class SefTransformNode extends PipelineNode<SefTransformConfig, "transfor
         // this.log(context, `[DEBUG] Resolving input items...`);
         // const itemsStartTime = Date.now();
         const sourcePaths = this.config.config.sourceFiles ?
-            await context.resolveInput(this.config.config.sourceFiles) :
+            context.streamInput(this.config.config.sourceFiles) :
             [sefStylesheetPath];
         // this.log(context, `[DEBUG] Input items resolved in ${Date.now() - itemsStartTime}ms: ${sourcePaths.length} file(s)`);
 
@@ -101,7 +133,7 @@ export class SefTransformNode extends PipelineNode<SefTransformConfig, "transfor
                 }
                 throw new Error(`Unknown output key: ${outputKey}`);
             },
-            async (sourcePath) => {
+            async (sourcePath, signal) => {
                 // this.log(context, `[DEBUG] Transforming item: ${sourcePath}`);
                 // const itemStartTime = Date.now();
 
@@ -144,7 +176,7 @@ export class SefTransformNode extends PipelineNode<SefTransformConfig, "transfor
                     outputPath,
                     baseDir,
                     transformOptions
-                });
+                }, signal, context.jobOptions);
                 // this.log(context, `[DEBUG] Transform completed in ${Date.now() - workerStartTime}ms`);
 
                 this.log(context, `Generated: ${result.outputPath}`);
@@ -1,5 +1,6 @@
 import {from, type Input, type PipelineNodeConfig, type FileRef, type UnifiedOutputConfig} from "../../core/pipeline";
 import {CompositeNode} from "../../core/compositeNode";
+import {type ConfigSchema} from "../../core/configSchema";
 import {CompileStylesheetNode} from "./compileStylesheetNode";
 import {SefTransformNode} from "./sefTransformNode";
 
@@ -19,6 +20,20 @@ interface XsltTransformConfig extends PipelineNodeConfig {
 }
 
 export class XsltTransformNode extends CompositeNode<XsltTransformConfig, "transformed" | "result-documents" | "compiledStylesheet"> {
+    static readonly configSchema: ConfigSchema = {
+        config: {
+            sourceFiles: {type: 'input'},
+            stylesheet: {type: ['fileRef', 'input'], required: true},
+            initialTemplate: {type: 'string'},
+            stylesheetParams: {type: 'object', values: 'any'},
+            tunnelParams: {type: 'object', values: 'any'},
+            templateParams: {type: 'object', values: 'any'},
+            serializationParams: {type: 'object', values: 'any'},
+            initialMode: {type: 'string'},
+            stubLibPath: {type: ['fileRef', 'input']}
+        }
+    };
+
     protected buildInternalNodes(): void {
         const compileName = `${this.name}:compile`;
         const transformName = `${this.name}:transform`;
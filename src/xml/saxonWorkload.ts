@@ -107,14 +107,8 @@ export async function performWork(job: TransformJob): Promise<TransformResult> {
         transformOptions.sourceNode = sourceNode;
     }
 
-    let result
-    try {
-        result = await SaxonJS.transform(transformOptions);
-    } catch (error) {
-        console.log("Error transforming", job.sourcePath, " with ", path.basename(job.sefStylesheetPath, ".sef.json"));
-        console.error(error);
-        throw error
-    }
+    // Errors reach the pipeline as the item's failure
+    const result = await SaxonJS.transform(transformOptions);
 
     // Write principal result
     await fs.mkdir(path.dirname(job.outputPath), { recursive: true });
@@ -0,0 +1,128 @@
+import path from "node:path";
+import {fileURLToPath} from "node:url";
+import {test} from "node:test";
+import assert from "node:assert/strict";
+import {WorkerPool} from "./workerPool";
+import {createTestContext} from "../testing";
+
+const workerPath = path.resolve(path.dirname(fileURLToPath(import.meta.url)), 'genericWorker.ts');
+
+// Workers load genericWorker.ts with Node's type stripping
+const skip = process.allowedNodeEnvironmentFlags.has('--experimental-strip-types') ? false : 'needs type stripping (Node 22.6+)';
+
+// Workload whose jobs return their value after `ms` milliseconds
+const SLEEPING_WORKLOAD = `
+export async function performWork(job) {
+    await new Promise(resolve => setTimeout(resolve, job.ms ?? 0));
+    return job.value;
+}
+`;
+
+test("queued jobs start by priority, then in order", {skip}, async () => {
+    const context = await createTestContext();
+    const pool = new WorkerPool(1, workerPath);
+    try {
+        const workloadScript = await context.addFile("workload.mjs", SLEEPING_WORKLOAD);
+        const started: string[] = [];
+        pool.addListener({jobStarted: (_workerId, job) => started.push(job.value)});
+
+        await Promise.all([
+            pool.execute({workloadScript, value: "busy", ms: 200}),
+            pool.execute({workloadScript, value: "low"}, undefined, {priority: 0}),
+            pool.execute({workloadScript, value: "high"}, undefined, {priority: 5}),
+            pool.execute({workloadScript, value: "medium"}, undefined, {priority: 1}),
+            pool.execute({workloadScript, value: "low-later"}, undefined, {priority: 0})
+        ]);
+
+        assert.deepEqual(started, ["busy", "high", "medium", "low", "low-later"]);
+    } finally {
+        await pool.terminate();
+        await context.dispose();
+    }
+});
+
+test("jobs of a group never exceed its maxConcurrency", {skip}, async () => {
+    const context = await createTestContext();
+    const pool = new WorkerPool(3, workerPath);
+    try {
+        const workloadScript = await context.addFile("workload.mjs", SLEEPING_WORKLOAD);
+        const running = new Map<string, number>();
+        const maxRunning = new Map<string, number>();
+        pool.addListener({
+            jobStarted: (_workerId, _job, {group = ''}) => {
+                running.set(group, (running.get(group) ?? 0) + 1);
+                maxRunning.set(group, Math.max(maxRunning.get(group) ?? 0, running.get(group)!));
+            },
+            jobFinished: (_workerId, _job, {group = ''}) => running.set(group, running.get(group)! - 1)
+        });
+
+        const limited = {group: "heavy", maxConcurrency: 1};
+        const results = await Promise.all([
+            ...[1, 2, 3].map(value => pool.execute({workloadScript, value, ms: 50}, undefined, limited)),
+            ...[4, 5].map(value => pool.execute({workloadScript, value, ms: 50}, undefined, {group: "light"}))
+        ]);
+
+        assert.deepEqual(results, [1, 2, 3, 4, 5]);
+        assert.equal(maxRunning.get("heavy"), 1);
+        assert.equal(maxRunning.get("light"), 2);
+    } finally {
+        await pool.terminate();
+        await context.dispose();
+    }
+});
+
+test("aborting drops queued jobs and lets running ones finish", {skip}, async () => {
+    const context = await createTestContext();
+    const pool = new WorkerPool(1, workerPath);
+    try {
+        const workloadScript = await context.addFile("workload.mjs", SLEEPING_WORKLOAD);
+        const controller = new AbortController();
+        const running = pool.execute({workloadScript, value: "running", ms: 100}, controller.signal);
+        const queued = pool.execute({workloadScript, value: "queued"}, controller.signal);
+
+        controller.abort(new Error("Build cancelled"));
+
+        await assert.rejects(queued, /Build cancelled/);
+        assert.equal(await running, "running");
+        await assert.rejects(pool.execute({workloadScript, value: "late"}, controller.signal), /Build cancelled/);
+    } finally {
+        await pool.terminate();
+        await context.dispose();
+    }
+});
+
+test("a timed-out job fails and its worker is replaced", {skip}, async () => {
+    const context = await createTestContext();
+    const pool = new WorkerPool(1, workerPath);
+    try {
+        const workloadScript = await context.addFile("workload.mjs", SLEEPING_WORKLOAD);
+
+        await assert.rejects(
+            pool.execute({workloadScript, value: "stuck", ms: 60000}, undefined, {timeoutMs: 100}),
+            (err: any) => err.code === 'ETIMEDOUT'
+        );
+        assert.equal(await pool.execute({workloadScript, value: "next"}), "next");
+    } finally {
+        await pool.terminate();
+        await context.dispose();
+    }
+});
+
+test("terminating the pool fails running and queued jobs", {skip}, async () => {
+    const context = await createTestContext();
+    const pool = new WorkerPool(1, workerPath);
+    try {
+        const workloadScript = await context.addFile("workload.mjs", SLEEPING_WORKLOAD);
+        const started = new Promise(resolve => pool.addListener({jobStarted: resolve}));
+        const failed = Promise.all([
+            assert.rejects(pool.execute({workloadScript, value: "running", ms: 60000}), /Worker pool was terminated/),
+            assert.rejects(pool.execute({workloadScript, value: "queued"}), /Worker pool was terminated/)
+        ]);
+
+        await started;
+        await pool.terminate();
+        await failed;
+    } finally {
+        await context.dispose();
+    }
+});
@@ -9,6 +9,43 @@ interface WorkerJob {
     job: any;
     resolve: (result: any) => void;
     reject: (error: Error) => void;
+    signal?: AbortSignal;
+    options: JobOptions;
+    startedAt?: number;
+    timeout?: NodeJS.Timeout;
+}
+
+// Time a timed-out job gets to clean up (e.g. kill child processes) before its worker is terminated
+const CANCEL_GRACE_MS = 1000;
+
+/**
+ * How a job is scheduled when more jobs are waiting than there are idle workers.
+ */
+export interface JobOptions {
+    /** Queued jobs with a higher priority start first; equal priorities start in order. Default: 0 */
+    priority?: number;
+    /** Jobs of the same group and owner, e.g. of one node, share the group's concurrency limit */
+    group?: string;
+    /** Maximum number of jobs of the group running at the same time. Default: no limit */
+    maxConcurrency?: number;
+    /**
+     * Fail the job if it runs longer than this, counted from when a worker picks it up. The worker
+     * is asked to cancel the job (see genericWorker) and then terminated and replaced. Default: no limit
+     */
+    timeoutMs?: number;
+    /**
+     * Who submitted the job, e.g. a pipeline running on a pool shared with others, so that
+     * listeners can leave out the jobs of other pipelines
+     */
+    owner?: unknown;
+}
+
+/**
+ * Notified when a worker picks up a job and when the job finishes.
+ */
+export interface WorkerPoolListener {
+    jobStarted?(workerId: number, job: any, options: JobOptions): void;
+    jobFinished?(workerId: number, job: any, options: JobOptions, durationMs: number, error?: Error): void;
 }
 
 export class WorkerPool {
@@ -16,61 +53,134 @@ export class WorkerPool {
     private workerIds = new Map<Worker, number>();
     private queue: WorkerJob[] = [];
     private activeJobs = new Map<Worker, WorkerJob>();
+    private watchedSignals = new WeakSet<AbortSignal>();
+    protected listeners: WorkerPoolListener[] = [];
+    // Workers of timed-out jobs, terminated after the grace period
+    private retiring = new Set<Worker>();
 
     constructor(
         private poolSize: number,
-        private workerPath: string  // Now expects absolute path
+        private workerPath: string,  // Now expects absolute path
+        listener: WorkerPoolListener = {}
     ) {
+        this.listeners.push(listener);
 
         for (let i = 0; i < poolSize; i++) {
-            // tsx requires --import but that doesn't work for worker threads
-            // Workaround: use tsx CLI to spawn the worker instead of node
-            const worker = new Worker(new URL(workerPath, import.meta.url), {
-                execArgv: ['--experimental-strip-types']
-            });
+            this.workers.push(this.spawnWorker(i));
+        }
+    }
 
-            this.workerIds.set(worker, i);
+    private spawnWorker(workerId: number): Worker {
+        // tsx requires --import but that doesn't work for worker threads
+        // Workaround: use tsx CLI to spawn the worker instead of node
+        const worker = new Worker(new URL(this.workerPath, import.meta.url), {
+            execArgv: ['--experimental-strip-types']
+        });
+
+        this.workerIds.set(worker, workerId);
+
+        worker.on("message", (message) => {
+            const job = this.activeJobs.get(worker);
+            if (!job) return;
+
+            this.activeJobs.delete(worker);
+            clearTimeout(job.timeout);
+
+            if (message.success) {
+                this.finishJob(worker, job);
+                job.resolve(message.result);
+            } else {
+                const error = new Error(message.error.message);
+                error.stack = message.error.stack;
+                this.finishJob(worker, job, error);
+                job.reject(error);
+            }
 
-            worker.on("message", (message) => {
-                const job = this.activeJobs.get(worker);
-                if (!job) return;
+            // Process next queued job if any
+            this.processNext(worker);
+        });
 
+        worker.on("error", (error) => {
+            const job = this.activeJobs.get(worker);
+            if (job) {
                 this.activeJobs.delete(worker);
+                clearTimeout(job.timeout);
+                this.finishJob(worker, job, error);
+                job.reject(error);
+            }
 
-                if (message.success) {
-                    job.resolve(message.result);
-                } else {
-                    const error = new Error(message.error.message);
-                    error.stack = message.error.stack;
-                    job.reject(error);
-                }
-
-                // Process next queued job if any
-                this.processNext(worker);
-            });
-
-            worker.on("error", (error) => {
-                const job = this.activeJobs.get(worker);
-                if (job) {
-                    this.activeJobs.delete(worker);
-                    job.reject(error);
-                }
-            });
-
-            this.workers.push(worker);
-        }
+            // An uncaught error ends the worker thread
+            this.replaceWorker(worker);
+        });
+
+        return worker;
+    }
+
+    private replaceWorker(worker: Worker) {
+        const index = this.workers.indexOf(worker);
+        if (index === -1) return; // Already replaced, or the pool was terminated
+
+        const replacement = this.spawnWorker(this.workerIds.get(worker)!);
+        this.workers[index] = replacement;
+        this.processNext(replacement);
     }
 
-    execute<T>(job: any): Promise<T> {
+    /**
+     * Fail a job that ran past its timeout and replace its worker, which may be stuck in a
+     * transform that never returns.
+     */
+    private timeOut(worker: Worker, workerJob: WorkerJob) {
+        const workerId = this.workerIds.get(worker)!;
+        const seconds = ((performance.now() - workerJob.startedAt!) / 1000).toFixed(1);
+        const error = Object.assign(
+            new Error(`Worker job timed out after ${seconds}s; worker ${workerId} was replaced`),
+            {code: 'ETIMEDOUT'}
+        );
+
+        this.activeJobs.delete(worker);
+        this.finishJob(worker, workerJob, error);
+        workerJob.reject(error);
+
+        worker.postMessage({cancel: true});
+        this.retiring.add(worker);
+        setTimeout(() => {
+            this.retiring.delete(worker);
+            worker.terminate();
+        }, CANCEL_GRACE_MS).unref();
+
+        this.replaceWorker(worker);
+    }
+
+    /**
+     * Also notify `listener` about jobs, e.g. a pipeline that runs on a pool shared with others.
+     * Returns a function that removes the listener.
+     */
+    addListener(listener: WorkerPoolListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(other => other !== listener);
+        };
+    }
+
+    /**
+     * Run a job on the next idle worker. When `signal` aborts, the job is dropped if it is still
+     * queued; a job that already started runs to completion.
+     */
+    execute<T>(job: any, signal?: AbortSignal, options: JobOptions = {}): Promise<T> {
         return new Promise((resolve, reject) => {
-            const workerJob: WorkerJob = { job, resolve, reject };
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+
+            const workerJob: WorkerJob = { job, resolve, reject, signal, options };
+            this.watchSignal(signal);
 
             // Try to find an idle worker
             const idleWorker = this.workers.find(w => !this.activeJobs.has(w));
 
-            if (idleWorker) {
-                this.activeJobs.set(idleWorker, workerJob);
-                idleWorker.postMessage(job);
+            if (idleWorker && this.canStart(workerJob)) {
+                this.startJob(idleWorker, workerJob);
             } else {
                 // All workers busy, queue the job
                 this.queue.push(workerJob);
@@ -78,11 +188,68 @@ export class WorkerPool {
         });
     }
 
+    /**
+     * Listen for an abort once per signal rather than once per job; a node may queue thousands of jobs.
+     */
+    private watchSignal(signal?: AbortSignal) {
+        if (!signal || this.watchedSignals.has(signal)) return;
+        this.watchedSignals.add(signal);
+
+        signal.addEventListener('abort', () => {
+            const dropped = this.queue.filter(workerJob => workerJob.signal === signal);
+            this.queue = this.queue.filter(workerJob => workerJob.signal !== signal);
+            for (const workerJob of dropped) {
+                workerJob.reject(signal.reason);
+            }
+        }, { once: true });
+    }
+
     private processNext(worker: Worker) {
-        const nextJob = this.queue.shift();
-        if (nextJob) {
-            this.activeJobs.set(worker, nextJob);
-            worker.postMessage(nextJob.job);
+        // Highest priority first; the queue is in submission order, so ties go to the oldest job
+        let next = -1;
+        for (let i = 0; i < this.queue.length; i++) {
+            const candidate = this.queue[i];
+            if ((next === -1 || (candidate.options.priority ?? 0) > (this.queue[next].options.priority ?? 0))
+                && this.canStart(candidate)) {
+                next = i;
+            }
+        }
+        if (next !== -1) {
+            const [nextJob] = this.queue.splice(next, 1);
+            this.startJob(worker, nextJob);
+        }
+    }
+
+    /**
+     * Whether the job's group is below its concurrency limit.
+     */
+    private canStart(workerJob: WorkerJob): boolean {
+        const {group, maxConcurrency} = workerJob.options;
+        if (group === undefined || maxConcurrency === undefined) return true;
+
+        let running = 0;
+        for (const active of this.activeJobs.values()) {
+            if (active.options.group === group && active.options.owner === workerJob.options.owner) running++;
+        }
+        return running < maxConcurrency;
+    }
+
+    private startJob(worker: Worker, workerJob: WorkerJob) {
+        workerJob.startedAt = performance.now();
+        this.activeJobs.set(worker, workerJob);
+        if (workerJob.options.timeoutMs !== undefined) {
+            workerJob.timeout = setTimeout(() => this.timeOut(worker, workerJob), workerJob.options.timeoutMs);
+        }
+        for (const listener of this.listeners) {
+            listener.jobStarted?.(this.workerIds.get(worker)!, workerJob.job, workerJob.options);
+        }
+        worker.postMessage(workerJob.job);
+    }
+
+    private finishJob(worker: Worker, workerJob: WorkerJob, error?: Error) {
+        const durationMs = performance.now() - (workerJob.startedAt ?? performance.now());
+        for (const listener of this.listeners) {
+            listener.jobFinished?.(this.workerIds.get(worker)!, workerJob.job, workerJob.options, durationMs, error);
         }
     }
 
@@ -95,11 +262,27 @@ export class WorkerPool {
         return activeWorkers;
     }
 
+    /**
+     * Stop all workers. Running and queued jobs fail, so that nothing waits for them forever.
+     */
     async terminate() {
-        await Promise.all(this.workers.map(w => w.terminate()));
-        this.workers = [];
-        this.workerIds.clear();
+        const error = new Error('Worker pool was terminated');
+        const active = Array.from(this.activeJobs.entries());
+        const queued = this.queue;
         this.activeJobs.clear();
         this.queue = [];
+        for (const [worker, workerJob] of active) {
+            clearTimeout(workerJob.timeout);
+            this.finishJob(worker, workerJob, error);
+            workerJob.reject(error);
+        }
+        for (const workerJob of queued) {
+            workerJob.reject(error);
+        }
+
+        await Promise.all([...this.workers, ...this.retiring].map(w => w.terminate()));
+        this.workers = [];
+        this.retiring.clear();
+        this.workerIds.clear();
     }
 }